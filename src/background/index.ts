@@ -1,8 +1,68 @@
 // Background service worker for the extension
 import { initDisplayMode } from "~/utils/displayMode";
 import { browser, logBrowserInfo, showNotification } from "~/utils/browser";
-import { cleanCopyUrlAction } from "~/logic/cleanCopyUrl";
-import { ContextMenu } from "~/utils/contextMenu";
+import { cleanCopyUrlAction, cleanModeMenu } from "~/logic/cleanCopyUrl";
+import { bulkCleanCopyAction } from "~/logic/bulkClean";
+import { contextMenu, type ContextMenu } from "~/utils/contextMenu";
+import { getCopyFormats } from "~/utils/cleanSettings";
+import { applyAutoClean, AUTO_CLEAN_STORAGE_KEYS } from "~/utils/autoClean";
+import { setupCommands } from "~/utils/commands";
+import {
+	setupSubscriptionUpdates,
+	updateSubscriptions,
+	SUBSCRIPTIONS_STORAGE_KEY,
+} from "~/utils/subscriptions";
+import { setupNotificationHandlers } from "~/utils/notificationRegistry";
+
+/**
+ * Register the context menu items: the plain "Clean Copy URL" entry,
+ * one entry per enabled copy format, the bulk selection entries and the
+ * clean mode submenu
+ */
+async function registerContextMenuItems(menu: ContextMenu) {
+	const formats = await getCopyFormats();
+	const actions = [
+		cleanCopyUrlAction(),
+		...formats.map((format) => cleanCopyUrlAction(format)),
+		...(["inline", "list"] as const).map((variant) =>
+			bulkCleanCopyAction(variant)
+		),
+		cleanModeMenu(),
+	];
+	const ids = new Set(actions.map(({ id }) => id));
+	const remove = (id: string) => {
+		const item = menu.getItems().find((i) => i.id === id);
+		if (item) menu.removeItem(item);
+	};
+
+	// Drop the entries of copy formats that were disabled
+	for (const { id } of menu.getItems()) {
+		if (id?.startsWith("clean-copy-") && !ids.has(id)) remove(id);
+	}
+	// Re-added items keep their place and new ones are appended, so the
+	// entries after the first new one are moved behind it
+	const existing = new Set(menu.getItems().map(({ id }) => id));
+	const firstNew = actions.findIndex(({ id }) => !existing.has(id));
+	if (firstNew >= 0) {
+		for (const { id } of actions.slice(firstNew)) remove(id);
+	}
+
+	for (const action of actions) {
+		menu.mutateContext("add", { title: action.title, action });
+	}
+}
+
+/**
+ * (Re)build the context menu and add it to Chrome
+ */
+async function setupContextMenu() {
+	await contextMenu.load(registerContextMenuItems);
+	contextMenu.addToChrome();
+}
+
+// Register the items on every worker start, so clicks that wake a
+// suspended worker are routed without waiting for onInstalled
+contextMenu.load(registerContextMenuItems);
 
 browser.runtime?.onInstalled.addListener(async () => {
 	console.log("Extension installed");
@@ -10,18 +70,15 @@ browser.runtime?.onInstalled.addListener(async () => {
 	logBrowserInfo();
 	// Initialize display mode
 	await initDisplayMode();
+	// Apply auto-clean navigation rules
+	await applyAutoClean();
 
 	// Check current popup state
 	const popup = await browser.action?.getPopup({});
 	console.log("[Background] Current popup after init:", popup);
 
-	// Example: Add a context menu item
-	new ContextMenu()
-		.mutateContext("add", {
-			title: "Clean Copy URL",
-			action: cleanCopyUrlAction(),
-		})
-		.addToChrome();
+	// Add the clean copy context menu items
+	await setupContextMenu();
 
 	console.log("[Background] Context menu item added");
 });
@@ -30,22 +87,27 @@ browser.runtime?.onInstalled.addListener(async () => {
 browser.runtime?.onStartup.addListener(async () => {
 	logBrowserInfo();
 	await initDisplayMode();
+	await applyAutoClean();
 
 	// Check current popup state
 	const popup = await browser.action?.getPopup({});
 	console.log("[Background] Current popup after init:", popup);
 
-	// Example: Add a context menu item
-	new ContextMenu()
-		.mutateContext("add", {
-			title: "Clean Copy URL",
-			action: cleanCopyUrlAction(),
-		})
-		.addToChrome();
+	// Add the clean copy context menu items
+	await setupContextMenu();
 
 	console.log("[Background] Context menu item added");
 });
 
+// Keyboard shortcuts dispatch to the same actions as the context menu
+setupCommands();
+
+// Remote rule lists are refreshed on an alarm schedule
+setupSubscriptionUpdates();
+
+// Notification buttons, e.g. "Copy original" after a clean copy
+setupNotificationHandlers();
+
 browser.runtime?.onMessage.addListener((msg, _sender, sendResponse) => {
 	// Handle context menu actions
 	sendResponse({ success: true, msg });
@@ -66,13 +128,34 @@ browser.storage?.onChanged.addListener((changes, areaName) => {
 		// Re-initialize display mode when it changes
 		initDisplayMode();
 	}
+	if (areaName === "sync" && changes.copyFormats) {
+		// Update the context menu when copy formats change, entries keep
+		// their IDs so only the added or removed formats reach Chrome
+		setupContextMenu();
+	}
+	if (AUTO_CLEAN_STORAGE_KEYS.some((key) => key in changes)) {
+		// Regenerate auto-clean rules when settings or rules change, custom
+		// rules and subscribed lists are kept in the local area
+		applyAutoClean();
+	}
+	if (areaName === "sync" && changes[SUBSCRIPTIONS_STORAGE_KEY]) {
+		// Fetch newly added rule lists right away
+		updateSubscriptions().catch((error) => {
+			console.error("[Background] Could not update rule lists:", error);
+		});
+	}
 });
 
 // Example: Listen for tab updates
 browser.tabs?.onUpdated.addListener((_tabId, changeInfo, tab) => {
 	if (changeInfo.status === "complete" && tab.url) {
 		console.log("Tab updated:", tab.url);
-		// send a browser notification
-		showNotification("Tab Updated", `You have opened: ${tab.url}`);
+		// send a browser notification, unless a domain policy mutes the site
+		showNotification(
+			"Tab Updated",
+			`You have opened: ${tab.url}`,
+			false,
+			tab.url
+		);
 	}
 });
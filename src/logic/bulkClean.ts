@@ -0,0 +1,174 @@
+import { showNotification } from "~/utils/browser";
+import { ContextMenuItem } from "~/utils/contextMenu";
+import { writeClipboard } from "~/utils/clipboard";
+import {
+	cleanUrl,
+	loadCleanOptions,
+	recordCleanCopy,
+	type CleanOptions,
+	type CleanResult,
+} from "./cleanCopyUrl";
+
+export type BulkCleanVariant = "inline" | "list";
+
+export interface FoundUrl {
+	url: string;
+	index: number;
+}
+
+export interface BulkCleanResult {
+	text: string;
+	/** Number of URLs cleaned */
+	count: number;
+	/** Number of URLs that changed after cleaning */
+	changed: number;
+	/** Clean result for each URL, in order of appearance */
+	results: CleanResult[];
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/gi;
+const TRAILING_PUNCTUATION = /[.,;:!?'"]+$/;
+
+/**
+ * Trim trailing punctuation and unbalanced closing brackets that belong
+ * to the surrounding text rather than the URL, e.g. "(see https://a.com/x)."
+ */
+const trimUrl = (url: string) => {
+	let result = url.replace(TRAILING_PUNCTUATION, "");
+	const pairs: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+
+	while (result.length > 0) {
+		const last = result[result.length - 1];
+		const open = pairs[last];
+		if (!open) break;
+		const opened = result.split(open).length - 1;
+		const closed = result.split(last).length - 1;
+		if (closed <= opened) break;
+		result = result.slice(0, -1).replace(TRAILING_PUNCTUATION, "");
+	}
+
+	return result;
+};
+
+/**
+ * Find every http(s) URL in a block of text
+ */
+export function findUrls(text: string): FoundUrl[] {
+	const urls: FoundUrl[] = [];
+	for (const match of text.matchAll(URL_PATTERN)) {
+		const url = trimUrl(match[0]);
+		if (URL.canParse(url)) {
+			urls.push({ url, index: match.index ?? 0 });
+		}
+	}
+	return urls;
+}
+
+/**
+ * Clean every URL in a block of text
+ * - inline: keep the text and replace each URL in place
+ * - list: return only the cleaned URLs, one per line
+ */
+export function bulkCleanText(
+	text: string,
+	variant: BulkCleanVariant,
+	options: CleanOptions = {}
+): BulkCleanResult {
+	const urls = findUrls(text);
+	const results = urls.map(({ url }) => cleanUrl(url, options));
+	const cleanedUrls = results.map(
+		(result, i) => result.output || urls[i].url
+	);
+	const changed = cleanedUrls.filter((url, i) => url !== urls[i].url).length;
+	const count = urls.length;
+
+	if (variant === "list") {
+		return { text: cleanedUrls.join("\n"), count, changed, results };
+	}
+
+	// Replace from the end so earlier indexes stay valid
+	let result = text;
+	for (let i = urls.length - 1; i >= 0; i--) {
+		const { url, index } = urls[i];
+		result =
+			result.slice(0, index) +
+			cleanedUrls[i] +
+			result.slice(index + url.length);
+	}
+
+	return { text: result, count, changed, results };
+}
+
+/**
+ * Read the current DOM selection in a tab, or in the frame of the click.
+ * Context menu selectionText collapses line breaks, the DOM selection keeps them.
+ */
+const readSelectionInTab = async (tabId?: number, frameId?: number) => {
+	if (tabId === undefined) return "";
+	try {
+		const [result] = await chrome.scripting.executeScript({
+			target: frameId ? { tabId, frameIds: [frameId] } : { tabId },
+			func: () => globalThis.getSelection()?.toString() ?? "",
+		});
+		return result?.result ?? "";
+	} catch (error) {
+		console.debug("Could not read selection in tab:", error);
+		return "";
+	}
+};
+
+export const bulkCleanCopyAction = (
+	variant: BulkCleanVariant = "inline"
+) => {
+	// This action can be used in context menus when right-clicking a selection
+
+	return {
+		id: `bulk-clean-${variant}`,
+		title:
+			variant === "list"
+				? "Clean Copy URLs Only (one per line)"
+				: "Clean Copy All URLs",
+		contexts: ["selection"],
+		action: async ({ selectionText, tab, frameId }) => {
+			const title = "Clean Copy All URLs";
+
+			try {
+				const text =
+					(await readSelectionInTab(tab?.id, frameId)) ||
+					selectionText ||
+					"";
+				const settings = await loadCleanOptions();
+				const result = bulkCleanText(text, variant, settings);
+
+				if (result.count === 0) {
+					const content = "No URLs found in the selection.";
+					console.warn(title, content);
+					showNotification(title, content, true);
+					return;
+				}
+
+				const copied = await writeClipboard(tab?.id, result.text);
+				if (!copied.success) {
+					throw new Error(copied.error ?? "Clipboard write failed");
+				}
+				await recordCleanCopy(result.results, tab?.title);
+
+				const content = `Cleaned ${result.count} ${
+					result.count === 1 ? "URL" : "URLs"
+				} (${result.changed} changed).`;
+				console.log(title, content);
+				showNotification(title, content);
+			} catch (err) {
+				console.warn(
+					"Error while copying cleaned URLs to clipboard:",
+					err
+				);
+
+				const content = `An error occurred while copying the cleaned URLs to the clipboard. \
+					Possible cause: Clipboard API not available or current tab is not HTTP/HTTPS.`;
+				console.warn(title, content);
+				showNotification(title, content, true);
+			}
+		},
+	} as const satisfies ContextMenuItem;
+};
@@ -0,0 +1,128 @@
+import { getSiteDomain } from "./domainRules";
+
+/**
+ * Canonical URL candidates read from a page, in order of preference:
+ * <link rel="canonical">, og:url and JSON-LD "url"
+ */
+export interface CanonicalCandidates {
+	canonical?: string | null;
+	ogUrl?: string | null;
+	jsonLd?: string[];
+}
+
+/**
+ * Check whether two URLs belong to the same site
+ */
+export function isSameSite(a: string, b: string): boolean {
+	if (!URL.canParse(a) || !URL.canParse(b)) return false;
+	return (
+		getSiteDomain(new URL(a).hostname) === getSiteDomain(new URL(b).hostname)
+	);
+}
+
+/**
+ * Pick the first valid, same-site canonical URL for a page. Candidates
+ * pointing at the home page are skipped for other pages, they usually
+ * come from the site-wide markup.
+ */
+export function pickCanonicalUrl(
+	pageUrl: string,
+	candidates: CanonicalCandidates
+): string | null {
+	const urls = [
+		candidates.canonical,
+		candidates.ogUrl,
+		...(candidates.jsonLd ?? []),
+	];
+
+	for (const candidate of urls) {
+		if (!candidate || !URL.canParse(candidate.trim(), pageUrl)) continue;
+		const url = new URL(candidate.trim(), pageUrl);
+		if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+		if (!isSameSite(url.href, pageUrl)) continue;
+		if (url.pathname === "/" && new URL(pageUrl).pathname !== "/") continue;
+		return url.href;
+	}
+
+	return null;
+}
+
+/**
+ * Read the canonical URL candidates of the page loaded in a tab
+ */
+export async function readCanonicalCandidates(
+	tabId: number
+): Promise<CanonicalCandidates | null> {
+	const results = await chrome.scripting.executeScript({
+		target: { tabId },
+		func: () => {
+			const jsonLd: string[] = [];
+			// Only nodes describing the page itself, not the Organization
+			// or WebSite nodes that point at the home page
+			const isPageType = (type: unknown): boolean =>
+				Array.isArray(type)
+					? type.some(isPageType)
+					: typeof type === "string" &&
+						/(?:Page|Article|BlogPosting|Product)$/.test(type);
+			const collect = (value: unknown) => {
+				if (Array.isArray(value)) {
+					value.forEach(collect);
+					return;
+				}
+				if (typeof value !== "object" || value === null) return;
+				const node = value as Record<string, unknown>;
+				const main = node.mainEntityOfPage as
+					| string
+					| Record<string, unknown>
+					| undefined;
+				const mainUrl =
+					typeof main === "string" ? main : (main?.["@id"] ?? main?.url);
+				if (typeof mainUrl === "string") jsonLd.push(mainUrl);
+				if (typeof node.url === "string" && isPageType(node["@type"])) {
+					jsonLd.push(node.url);
+				}
+				if (node["@graph"]) collect(node["@graph"]);
+			};
+
+			const scripts = document.querySelectorAll(
+				'script[type="application/ld+json"]'
+			);
+			for (const script of scripts) {
+				try {
+					collect(JSON.parse(script.textContent ?? ""));
+				} catch {
+					// Ignore malformed JSON-LD
+				}
+			}
+
+			return {
+				canonical: document
+					.querySelector('link[rel="canonical"]')
+					?.getAttribute("href"),
+				ogUrl: document
+					.querySelector('meta[property="og:url"]')
+					?.getAttribute("content"),
+				jsonLd,
+			};
+		},
+	});
+
+	return results?.[0]?.result ?? null;
+}
+
+/**
+ * Find the canonical URL of the page in a tab, or null if there is none
+ * or it cannot be read (e.g. restricted pages)
+ */
+export async function findCanonicalUrl(
+	tabId: number,
+	pageUrl: string
+): Promise<string | null> {
+	try {
+		const candidates = await readCanonicalCandidates(tabId);
+		return candidates ? pickCanonicalUrl(pageUrl, candidates) : null;
+	} catch (error) {
+		console.warn("Could not read canonical URL:", error);
+		return null;
+	}
+}
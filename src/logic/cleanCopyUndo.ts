@@ -0,0 +1,90 @@
+import { showNotification, showNotificationWithButtons } from "~/utils/browser";
+import { getDomainPolicies, setDomainPolicies } from "~/utils/cleanSettings";
+import { writeClipboard } from "~/utils/clipboard";
+import {
+	linkNotification,
+	registerNotificationHandler,
+} from "~/utils/notificationRegistry";
+
+/**
+ * What a clean copy notification needs to undo the copy
+ */
+export interface CleanCopyUndo {
+	tabId?: number;
+	/** The original URL, rendered in the copy format */
+	text: string;
+	html?: string;
+	/** Host of the original URL, for the exception */
+	host: string;
+}
+
+export const CLEAN_COPY_NOTIFICATION = "clean-copy";
+
+const BUTTONS = [
+	{ title: "Copy original" },
+	{ title: "Add exception for this site" },
+];
+
+const copyOriginal = async ({ tabId, text, html }: CleanCopyUndo) => {
+	const result = await writeClipboard(tabId, text, html);
+	if (!result.success) {
+		showNotification(
+			"Clean Copy URL",
+			"The original URL could not be copied.",
+			true
+		);
+	}
+	return result.success;
+};
+
+/**
+ * Never clean links to the host again
+ */
+const addException = async (host: string) => {
+	const policies = await getDomainPolicies();
+	const exists = policies.some(
+		(policy) =>
+			policy.host === host &&
+			policy.action === "skip-clean" &&
+			!policy.pathPrefix
+	);
+	if (!exists) {
+		await setDomainPolicies([...policies, { host, action: "skip-clean" }]);
+	}
+};
+
+registerNotificationHandler<CleanCopyUndo>(CLEAN_COPY_NOTIFICATION, {
+	onButtonClicked: async (undo, buttonIndex) => {
+		if (buttonIndex === 1) {
+			await addException(undo.host);
+		}
+		if (!(await copyOriginal(undo))) return;
+
+		const copied = "The original URL was copied.";
+		showNotification(
+			"Clean Copy URL",
+			buttonIndex === 1
+				? `Links to ${undo.host} will be copied as is. ${copied}`
+				: copied
+		);
+	},
+});
+
+/**
+ * Show the result of a clean copy with buttons to copy the original URL
+ * instead or to add an exception for its site
+ */
+export async function notifyCleanCopy(
+	message: string,
+	undo: CleanCopyUndo,
+	pageUrl?: string
+): Promise<void> {
+	const notificationId = await showNotificationWithButtons(
+		"Clean Copy URL",
+		message,
+		BUTTONS,
+		false,
+		pageUrl
+	);
+	await linkNotification(notificationId, CLEAN_COPY_NOTIFICATION, undo);
+}
@@ -1,133 +1,473 @@
 import { showNotification } from "~/utils/browser";
 import { ContextMenuItem } from "~/utils/contextMenu";
+import {
+	getCleanSettings,
+	getDomainPolicies,
+	setCleanSettings,
+	CLEAN_SETTINGS_STORAGE_KEY,
+	type CleanSettings,
+} from "~/utils/cleanSettings";
+import { addHistoryEntries } from "~/utils/history";
+import { getCustomProviders } from "~/utils/customRules";
+import { getSubscriptionProviders } from "~/utils/subscriptions";
+import { writeClipboard } from "~/utils/clipboard";
+import { BUILT_IN_DOMAIN_RULES, type DomainRule } from "./domainRules";
+import { mergeProviders, type ClearUrlsProviders } from "./clearUrls";
+import {
+	DEFAULT_NORMALIZE_OPTIONS,
+	dropCredentialsAndFragment,
+	type NormalizeOptions,
+} from "./normalizeUrl";
+import {
+	DEFAULT_AMP_PUBLISHERS,
+	DEFAULT_MOBILE_HOSTS,
+	type MobileHostMapping,
+} from "./deAmp";
+import {
+	hasDomainPolicy,
+	type DomainPolicy,
+	type DomainPolicyAction,
+} from "./domainPolicy";
+import { unwrapUrl } from "./unwrapUrl";
+import {
+	resolvePipeline,
+	runPipeline,
+	SUPPORTED_PROTOCOLS,
+	type PipelineStep,
+	type TransformContext,
+	type TransformerConfig,
+} from "./pipeline";
+import { findCanonicalUrl } from "./canonicalUrl";
+import { findLinkBySelection } from "./findLink";
+import { notifyCleanCopy } from "./cleanCopyUndo";
+import {
+	createCopyFormatContext,
+	renderCopyFormat,
+	PLAIN_COPY_FORMAT,
+	type CopyFormat,
+} from "./copyFormat";
+
+/**
+ * - strict: drop the whole query string (origin + pathname)
+ * - balanced: drop known tracking parameters, keep functional ones
+ *
+ * In both modes, matching domain rules can keep or drop specific parameters.
+ */
+export type CleanMode = "strict" | "balanced";
+
+export interface CleanOptions {
+	mode?: CleanMode;
+	keepFragment?: boolean;
+	/** Domain rules to apply, defaults to the built-in rule set */
+	rules?: DomainRule[];
+	/** Custom rules in the ClearURLs format, applied before domain rules */
+	providers?: ClearUrlsProviders;
+	/** Order and enabled state of the pipeline transformers */
+	transformers?: TransformerConfig[];
+	normalize?: Partial<NormalizeOptions>;
+	/** Mobile to desktop host mappings, defaults to the built-in table */
+	mobileHosts?: MobileHostMapping[];
+	/** Publisher host patterns for the de-AMP step, defaults to the built-in list */
+	ampPublishers?: string[];
+	/** Per-domain policies, matched against the URL before cleaning */
+	policies?: DomainPolicy[];
+}
+
+/**
+ * - cleaned: rules changed the URL
+ * - unchanged: the URL was already clean
+ * - invalid: the input is not a URL (output is empty)
+ * - unsupported: the scheme cannot be cleaned, e.g. javascript: (output is empty)
+ * - skipped: a domain policy disables cleaning (output is the input)
+ * - error: cleaning failed (output is the input)
+ */
+export type CleanStatus =
+	| "cleaned"
+	| "unchanged"
+	| "invalid"
+	| "unsupported"
+	| "skipped"
+	| "error";
+
+export interface CleanResult {
+	input: string;
+	output: string;
+	status: CleanStatus;
+	/** Names of the query parameters that were removed */
+	removedParams: string[];
+	/** Names of the rules that changed the URL */
+	rules: string[];
+	warnings: string[];
+	/** Before/after of every pipeline step */
+	trace: PipelineStep[];
+}
+
+/**
+ * Clean a URL and report which rules changed it
+ */
+export const cleanUrl = (
+	url: string,
+	options: CleanOptions = {}
+): CleanResult => {
+	const {
+		mode = "strict",
+		keepFragment = false,
+		rules = BUILT_IN_DOMAIN_RULES,
+		providers = {},
+		transformers,
+		normalize,
+		mobileHosts = DEFAULT_MOBILE_HOSTS,
+		ampPublishers = DEFAULT_AMP_PUBLISHERS,
+		policies = [],
+	} = options;
+
+	const result = (
+		status: CleanStatus,
+		output: string,
+		details: Partial<CleanResult> = {}
+	): CleanResult => ({
+		input: url,
+		output,
+		status,
+		removedParams: [],
+		rules: [],
+		warnings: [],
+		trace: [],
+		...details,
+	});
 
-export const cleanCopyUrl = (url: string) => {
 	try {
 		const isValidUrl = URL.canParse(url);
 		if (!isValidUrl) {
 			console.warn("Provided string is not a valid URL:", url);
-			return "";
+			return result("invalid", "", {
+				warnings: ["Not a valid URL"],
+			});
+		}
+		const { protocol, href } = new URL(url);
+		if (!SUPPORTED_PROTOCOLS.includes(protocol)) {
+			return result("unsupported", "", {
+				warnings: [`${protocol} URLs are not supported`],
+			});
+		}
+		// Policies apply to the destination of wrapped links as well
+		const target = unwrapUrl(href);
+		const hasPolicy = (action: DomainPolicyAction) =>
+			hasDomainPolicy(href, policies, action) ||
+			hasDomainPolicy(target, policies, action);
+		if (hasPolicy("skip-clean")) {
+			// Wrappers are dropped, the destination is kept unchanged
+			return target !== href
+				? result("skipped", target, { rules: ["Redirect unwrap"] })
+				: result("skipped", url);
 		}
 		console.log("Cleaning URL:", url);
-		const parsedUrl = new URL(url);
-		return parsedUrl.origin + parsedUrl.pathname;
+
+		const context: TransformContext = {
+			mode: hasPolicy("strict") ? "strict" : mode,
+			keepFragment,
+			rules,
+			providers,
+			normalize: { ...DEFAULT_NORMALIZE_OPTIONS, ...normalize },
+			mobileHosts,
+			ampPublishers,
+			applied: new Set(),
+			removedParams: [],
+			warnings: [],
+		};
+		const pipeline = runPipeline(
+			url,
+			context,
+			resolvePipeline(transformers)
+		);
+		const details = {
+			removedParams: context.removedParams,
+			rules: [...context.applied],
+			trace: pipeline.trace,
+		};
+
+		if (pipeline.unsupportedProtocol) {
+			return result("unsupported", "", {
+				...details,
+				warnings: [
+					`${pipeline.unsupportedProtocol} URLs are not supported`,
+				],
+			});
+		}
+
+		// Not left to the normalize step, which can be disabled
+		const output = dropCredentialsAndFragment(pipeline.url, keepFragment);
+		return result(output !== href ? "cleaned" : "unchanged", output, {
+			...details,
+			warnings: context.warnings,
+		});
 	} catch (error) {
 		console.error("Invalid URL:", error);
-		return url;
+		return result("error", url, {
+			warnings: [error instanceof Error ? error.message : String(error)],
+		});
+	}
+};
+
+/**
+ * Describe a clean result for notifications
+ */
+export const describeCleanResult = (result: CleanResult): string => {
+	switch (result.status) {
+		case "invalid":
+			return "No valid URL found to copy.";
+		case "unsupported":
+			return `${result.warnings[0] ?? "This URL is not supported"}.`;
+		case "skipped":
+			return "Cleaning is disabled for this site, the URL was copied as is.";
+		case "error":
+			return "The URL could not be cleaned and was copied unchanged.";
+		case "unchanged":
+			return "The URL was already clean.";
 	}
+
+	const count = result.removedParams.length;
+	const parts: string[] = [];
+	if (result.rules.includes("Redirect unwrap")) {
+		parts.push("unwrapped a redirect");
+	}
+	if (result.rules.includes("AMP page")) {
+		parts.push("replaced an AMP link");
+	}
+	if (result.rules.includes("Mobile site")) {
+		parts.push("switched to the desktop site");
+	}
+	if (count > 0) {
+		const kind = result.rules.includes("Strict mode") ? "" : "tracking ";
+		const noun = count === 1 ? "parameter" : "parameters";
+		parts.push(`removed ${count} ${kind}${noun}`);
+	}
+	const summary = parts.join(", ") || "cleaned the URL";
+	return `${summary[0].toUpperCase()}${summary.slice(1)}.`;
 };
 
-export const cleanCopyUrlAction = () => {
+export const cleanCopyUrl = (url: string, options: CleanOptions = {}) =>
+	cleanUrl(url, options).output;
+
+/**
+ * Load the user's clean options: settings, custom rules, subscribed lists
+ * and domain policies.
+ * Custom rules take precedence over subscriptions, which run before the
+ * built-in rules.
+ */
+export const loadCleanOptions = async (): Promise<
+	CleanSettings & CleanOptions
+> => ({
+	...(await getCleanSettings()),
+	providers: mergeProviders(
+		await getCustomProviders(),
+		await getSubscriptionProviders()
+	),
+	policies: await getDomainPolicies(),
+});
+
+/**
+ * Host the link leads to once redirect wrappers and AMP caches are
+ * resolved, so exceptions are not added for the wrapper
+ */
+const destinationHost = (result: CleanResult): string => {
+	const resolved = [...result.trace]
+		.reverse()
+		.find(({ id }) => id === "de-amp" || id === "unwrap");
+	return new URL(resolved?.after ?? result.input).hostname;
+};
+
+/**
+ * Record successful clean copies in the history
+ * History errors are logged but never fail the copy itself
+ */
+export const recordCleanCopy = async (results: CleanResult[], title = "") => {
+	try {
+		await addHistoryEntries(
+			results.map((result) => ({
+				originalUrl: result.input,
+				cleanedUrl: result.output,
+				title,
+				rules: result.rules,
+			}))
+		);
+	} catch (error) {
+		console.warn("Could not record clean copy history:", error);
+	}
+};
+
+export const cleanCopyUrlAction = (
+	format: CopyFormat = PLAIN_COPY_FORMAT
+) => {
 	// This action can be used in context menus when right-clicking a link
 
 	return {
-		title: "Clean Copy URL",
+		id: `clean-copy-${format.id}`,
+		title:
+			format.id === PLAIN_COPY_FORMAT.id
+				? "Clean Copy URL"
+				: `Clean Copy as ${format.name}`,
 		contexts: ["link", "selection", "page"],
-		action: async ({ selection, tab }) => {
+		// Links with other schemes can only fail as unsupported
+		targetUrlPatterns: ["http://*/*", "https://*/*"],
+		action: async ({ linkUrl, selectionText, pageUrl, tab, frameId }) => {
 			try {
-				const cleanedUrl = cleanCopyUrl(selection ?? "");
+				const settings = await loadCleanOptions();
+
+				// The clicked link wins over selected text. Page context: no
+				// selection or link, clean the page URL itself.
+				const selection = selectionText || "";
+				const page = pageUrl || tab?.url || "";
+				let source = linkUrl || selection || page;
+				let usedCanonical = false;
+				if (
+					!linkUrl &&
+					!selection &&
+					settings.preferCanonical &&
+					tab?.id &&
+					page
+				) {
+					const canonical = await findCanonicalUrl(tab.id, page);
+					if (canonical) {
+						console.debug("Using canonical URL:", canonical);
+						source = canonical;
+						usedCanonical = true;
+					}
+				}
+
+				let cleaned = cleanUrl(source, settings);
+				const cleanedUrl = cleaned.output;
 				let finalUrl = cleanedUrl;
 
 				console.debug("Cleaned URL:", cleanedUrl);
 
 				// If the selection is not a valid URL, try to find a link in the page
-				if (cleanedUrl === "") {
-					const findLinkBySelectionIfNotLink = async (
-						selection?: string
-					) => {
-						if (!selection) return null;
-
-						const anchorElements = await chrome.scripting
-							.executeScript({
-								target: { tabId: tab?.id ?? 0 },
-								func: (selection) => {
-									const anchors =
-										document.querySelectorAll("a") ?? [];
-									for (const anchor of anchors) {
-										if (
-											anchor.href === selection ||
-											anchor.innerText === selection
-										) {
-											return anchor.href;
-										}
-									}
-								},
-								args: [selection],
-							})
-							.then((x) => {
-								if (x.length > 0) {
-									return x[0].result;
-								}
-								return null;
-							});
-
-						return anchorElements;
-					};
-
-					const resultByLinkText = await findLinkBySelectionIfNotLink(
-						selection
+				if (cleaned.status === "invalid") {
+					const resultByLinkText = await findLinkBySelection(
+						tab?.id,
+						selection,
+						frameId
 					);
 					if (resultByLinkText) {
-						finalUrl = cleanCopyUrl(resultByLinkText);
+						cleaned = cleanUrl(resultByLinkText, settings);
+						finalUrl = cleaned.output;
 					}
 				}
 
 				if (!finalUrl || finalUrl === "") {
 					const message = {
 						title: "Clean Copy URL",
-						content: `No valid URL found to copy.`,
+						content: describeCleanResult(cleaned),
 					};
 					console.warn(message.title, message.content);
 					showNotification(message.title, message.content, true);
 					return;
 				}
 
+				const copy = renderCopyFormat(
+					format,
+					createCopyFormatContext(finalUrl, {
+						title: tab?.title,
+						selection,
+					})
+				);
+
 				console.debug("Attempting to copy cleaned URL in tab:", {
 					cleanedUrl,
+					format: format.id,
 					tab,
 				});
 
-				const result = await chrome.scripting
-					.executeScript({
-						target: {
-							tabId: tab.id ?? 0,
-						},
-						func: (url: string) => {
-							navigator.clipboard.writeText(url).catch((err) => {
-								console.error("Failed to copy text: ", err);
-							});
+				// Without a tab the offscreen document writes the clipboard
+				const result = await writeClipboard(
+					tab?.id,
+					copy.text,
+					copy.html
+				);
+				if (!result.success) {
+					throw new Error(result.error ?? "Clipboard write failed");
+				}
+
+				await recordCleanCopy([cleaned], tab?.title);
+				const feedback = [
+					usedCanonical ? "Used the page's canonical URL." : "",
+					describeCleanResult(cleaned),
+					...cleaned.warnings,
+				]
+					.filter(Boolean)
+					.join("\n");
+				if (cleaned.status === "cleaned") {
+					// Offer to undo in case cleaning removed something needed
+					const original = renderCopyFormat(
+						format,
+						createCopyFormatContext(cleaned.input, {
+							title: tab?.title,
+							selection,
+						})
+					);
+					await notifyCleanCopy(
+						feedback,
+						{
+							tabId: tab?.id,
+							text: original.text,
+							html: original.html,
+							host: destinationHost(cleaned),
 						},
-						args: [finalUrl],
-						injectImmediately: true,
-					})
-					.then((x) => x[0].result);
-				if (result !== undefined) {
-					console.log(
-						"Cleaned URL copied to clipboard in tab:",
-						finalUrl
+						tab?.url
 					);
-					return;
+				} else {
+					showNotification("Clean Copy URL", feedback, false, tab?.url);
 				}
+				console.log(
+					`Cleaned URL copied to clipboard (${result.method}):`,
+					finalUrl
+				);
 			} catch (err) {
 				console.warn(
 					"Error while copying cleaned URL to clipboard:",
 					err
 				);
 
-				if (tab) {
-					const message = {
-						title: "Clean Copy URL",
-						content: `An error occurred while copying the cleaned URL to the clipboard. \
-							Possible cause: Clipboard API not available or current tab is not HTTP/HTTPS.`,
-					};
-					console.warn(message.title, message.content);
-					showNotification(message.title, message.content, true);
-				}
-
-				return;
+				const message = {
+					title: "Clean Copy URL",
+					content: `An error occurred while copying the cleaned URL to the clipboard. \
+						Possible cause: Clipboard API not available or current tab is not HTTP/HTTPS.`,
+				};
+				console.warn(message.title, message.content);
+				showNotification(message.title, message.content, true);
 			}
-
-			console.warn("Clipboard API not available. Cannot copy URL.");
 		},
 	} as const satisfies ContextMenuItem;
 };
+
+const CLEAN_MODE_TITLES: Record<CleanMode, string> = {
+	strict: "Strict",
+	balanced: "Balanced",
+};
+
+/**
+ * "Clean Copy mode" submenu with one radio item per mode, bound to the mode
+ * in the clean settings
+ */
+export const cleanModeMenu = () => {
+	const modes = Object.keys(CLEAN_MODE_TITLES) as CleanMode[];
+	return {
+		id: "clean-mode",
+		title: "Clean Copy mode",
+		contexts: ["all"],
+		children: modes.map(
+			(mode): ContextMenuItem => ({
+				id: `clean-mode-${mode}`,
+				title: CLEAN_MODE_TITLES[mode],
+				type: "radio",
+				checked: {
+					storageKey: CLEAN_SETTINGS_STORAGE_KEY,
+					isChecked: async () => (await getCleanSettings()).mode === mode,
+					setChecked: async (checked) => {
+						if (checked) await setCleanSettings({ mode });
+					},
+				},
+			})
+		),
+	} satisfies ContextMenuItem;
+};
@@ -0,0 +1,269 @@
+import { filterParams } from "./queryString";
+
+/**
+ * Provider in the ClearURLs rule format (data.min.json)
+ * All patterns are regular expression sources
+ */
+export interface ClearUrlsProvider {
+	/** Matched against the full URL */
+	urlPattern: string;
+	/** Blocks the whole site in ClearURLs, not supported when cleaning */
+	completeProvider?: boolean;
+	/** Query parameter names to remove */
+	rules?: string[];
+	/** Patterns removed from the raw URL string */
+	rawRules?: string[];
+	/** Referral marketing parameters, removed like rules */
+	referralMarketing?: string[];
+	/** URLs matching any exception are left untouched by this provider */
+	exceptions?: string[];
+	/** Redirect patterns, the first capture group holds the target URL */
+	redirections?: string[];
+	forceRedirection?: boolean;
+}
+
+export type ClearUrlsProviders = Record<string, ClearUrlsProvider>;
+
+export interface ClearUrlsData {
+	providers: ClearUrlsProviders;
+}
+
+export interface ProviderError {
+	provider: string;
+	message: string;
+}
+
+export interface ClearUrlsImport {
+	providers: ClearUrlsProviders;
+	errors: ProviderError[];
+}
+
+export interface ProvidersResult {
+	url: string;
+	/** Names of the providers that changed the URL */
+	applied: string[];
+	/** Whether a redirection replaced the URL with its target */
+	redirected: boolean;
+	/** Names of the query parameters removed by rules */
+	removedParams: string[];
+}
+
+const PATTERN_LIST_FIELDS = [
+	"rules",
+	"rawRules",
+	"referralMarketing",
+	"exceptions",
+	"redirections",
+] as const;
+
+const BOOLEAN_FIELDS = ["completeProvider", "forceRedirection"] as const;
+
+const regexError = (pattern: string): string | null => {
+	try {
+		new RegExp(pattern, "i");
+		return null;
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+};
+
+/**
+ * Validate a single provider, returning a list of error messages
+ */
+export function validateProvider(provider: unknown): string[] {
+	if (typeof provider !== "object" || provider === null) {
+		return ["Provider must be an object"];
+	}
+
+	const errors: string[] = [];
+	const value = provider as Record<string, unknown>;
+
+	if (typeof value.urlPattern !== "string" || value.urlPattern === "") {
+		errors.push('"urlPattern" must be a non-empty string');
+	} else {
+		const error = regexError(value.urlPattern);
+		if (error) errors.push(`Invalid "urlPattern": ${error}`);
+	}
+
+	for (const field of PATTERN_LIST_FIELDS) {
+		const list = value[field];
+		if (list === undefined) continue;
+		if (!Array.isArray(list)) {
+			errors.push(`"${field}" must be an array of strings`);
+			continue;
+		}
+		list.forEach((pattern, i) => {
+			if (typeof pattern !== "string") {
+				errors.push(`"${field}[${i}]" must be a string`);
+				return;
+			}
+			const error = regexError(pattern);
+			if (error) errors.push(`Invalid "${field}[${i}]": ${error}`);
+		});
+	}
+
+	for (const field of BOOLEAN_FIELDS) {
+		if (value[field] !== undefined && typeof value[field] !== "boolean") {
+			errors.push(`"${field}" must be a boolean`);
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Validate ClearURLs data, keeping valid providers and reporting invalid ones
+ */
+export function validateClearUrlsData(data: unknown): ClearUrlsImport {
+	const providers: ClearUrlsProviders = {};
+	const errors: ProviderError[] = [];
+
+	const value = data as Partial<ClearUrlsData> | null;
+	if (
+		typeof value !== "object" ||
+		value === null ||
+		typeof value.providers !== "object" ||
+		value.providers === null ||
+		Array.isArray(value.providers)
+	) {
+		return {
+			providers,
+			errors: [{ provider: "", message: 'Missing "providers" object' }],
+		};
+	}
+
+	for (const [name, provider] of Object.entries(value.providers)) {
+		const providerErrors = validateProvider(provider);
+		if (providerErrors.length > 0) {
+			errors.push(
+				...providerErrors.map((message) => ({
+					provider: name,
+					message,
+				}))
+			);
+			continue;
+		}
+		providers[name] = provider;
+	}
+
+	return { providers, errors };
+}
+
+/**
+ * Parse and validate a ClearURLs JSON file
+ */
+export function parseClearUrlsJson(text: string): ClearUrlsImport {
+	try {
+		return validateClearUrlsData(JSON.parse(text));
+	} catch (error) {
+		return {
+			providers: {},
+			errors: [
+				{
+					provider: "",
+					message: `Invalid JSON: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				},
+			],
+		};
+	}
+}
+
+/**
+ * Serialize providers back to the ClearURLs format
+ */
+export function exportClearUrlsData(providers: ClearUrlsProviders): string {
+	const data: ClearUrlsData = { providers };
+	return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Merge provider lists in order of precedence.
+ * Earlier lists win name conflicts and their providers are applied first.
+ */
+export function mergeProviders(
+	...lists: ClearUrlsProviders[]
+): ClearUrlsProviders {
+	const merged: ClearUrlsProviders = {};
+	for (const providers of lists) {
+		for (const [name, provider] of Object.entries(providers)) {
+			if (!(name in merged)) merged[name] = provider;
+		}
+	}
+	return merged;
+}
+
+const testPattern = (pattern: string, value: string) =>
+	new RegExp(pattern, "i").test(value);
+
+/**
+ * Apply ClearURLs providers to a URL.
+ * Stops at the first redirection so the caller can clean the target again.
+ */
+export function applyClearUrlsProviders(
+	url: string,
+	providers: ClearUrlsProviders
+): ProvidersResult {
+	let current = url;
+	const applied: string[] = [];
+	const removedParams: string[] = [];
+
+	for (const [name, provider] of Object.entries(providers)) {
+		if (!testPattern(provider.urlPattern, current)) continue;
+		const isException = provider.exceptions?.some((pattern) =>
+			testPattern(pattern, current)
+		);
+		if (isException) continue;
+
+		for (const redirection of provider.redirections ?? []) {
+			const target = new RegExp(redirection, "i").exec(current)?.[1];
+			if (!target) continue;
+			try {
+				const decoded = decodeURIComponent(target);
+				if (URL.canParse(decoded)) {
+					return {
+						url: decoded,
+						applied: [...applied, name],
+						redirected: true,
+						removedParams,
+					};
+				}
+			} catch {
+				// Ignore malformed redirection targets
+			}
+		}
+
+		let next = current;
+		for (const rawRule of provider.rawRules ?? []) {
+			next = next.replace(new RegExp(rawRule, "gi"), "");
+		}
+
+		const paramRules = [
+			...(provider.rules ?? []),
+			...(provider.referralMarketing ?? []),
+		];
+		if (paramRules.length > 0 && URL.canParse(next)) {
+			const parsedUrl = new URL(next);
+			const search = filterParams(parsedUrl.search, (key) => {
+				const remove = paramRules.some((rule) =>
+					testPattern(`^(?:${rule})$`, key)
+				);
+				if (remove) removedParams.push(key);
+				return !remove;
+			});
+			if (search !== parsedUrl.search) {
+				next =
+					parsedUrl.origin +
+					parsedUrl.pathname +
+					search +
+					parsedUrl.hash;
+			}
+		}
+
+		if (next !== current) applied.push(name);
+		current = next;
+	}
+
+	return { url: current, applied, redirected: false, removedParams };
+}
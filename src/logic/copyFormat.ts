@@ -0,0 +1,126 @@
+/**
+ * Output format for a copied URL
+ * Templates support the placeholders {url}, {title}, {host}, {selection} and {date}
+ */
+export interface CopyFormat {
+	id: string;
+	name: string;
+	/** Template for the text/plain clipboard entry */
+	template: string;
+	/** Escape placeholder values in the plain template */
+	escape?: "html" | "markdown";
+	/** Optional template for a text/html clipboard entry (rich text) */
+	htmlTemplate?: string;
+}
+
+export interface CopyFormatContext {
+	url: string;
+	title: string;
+	host: string;
+	selection: string;
+	date: string;
+}
+
+export interface RenderedCopy {
+	text: string;
+	html?: string;
+}
+
+export const PLAIN_COPY_FORMAT: CopyFormat = {
+	id: "plain",
+	name: "Plain URL",
+	template: "{url}",
+};
+
+export const BUILT_IN_COPY_FORMATS: CopyFormat[] = [
+	PLAIN_COPY_FORMAT,
+	{
+		id: "markdown",
+		name: "Markdown",
+		template: "[{title}]({url})",
+		escape: "markdown",
+	},
+	{
+		id: "html",
+		name: "HTML Link",
+		template: '<a href="{url}">{title}</a>',
+		escape: "html",
+	},
+	{
+		id: "rich",
+		name: "Rich Text",
+		template: "{title} ({url})",
+		htmlTemplate: '<a href="{url}">{title}</a>',
+	},
+	{
+		id: "org",
+		name: "Org-mode",
+		template: "[[{url}][{title}]]",
+	},
+];
+
+const PLACEHOLDERS = ["url", "title", "host", "selection", "date"] as const;
+
+const escapeHtml = (value: string) =>
+	value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+
+const escapeMarkdown = (value: string) => value.replace(/([[\]()\\])/g, "\\$1");
+
+/**
+ * Replace {placeholders} in a template with context values
+ * Unknown placeholders are left untouched
+ */
+export function renderTemplate(
+	template: string,
+	context: CopyFormatContext,
+	escape?: CopyFormat["escape"]
+): string {
+	const escapeValue =
+		escape === "html"
+			? escapeHtml
+			: escape === "markdown"
+			? escapeMarkdown
+			: (value: string) => value;
+
+	return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+		if (!(PLACEHOLDERS as readonly string[]).includes(name)) return match;
+		return escapeValue(context[name as keyof CopyFormatContext]);
+	});
+}
+
+/**
+ * Render a copy format into its clipboard entries
+ */
+export function renderCopyFormat(
+	format: CopyFormat,
+	context: CopyFormatContext
+): RenderedCopy {
+	const text = renderTemplate(format.template, context, format.escape);
+	if (!format.htmlTemplate) return { text };
+
+	return {
+		text,
+		html: renderTemplate(format.htmlTemplate, context, "html"),
+	};
+}
+
+/**
+ * Build the template context for a cleaned URL
+ */
+export function createCopyFormatContext(
+	url: string,
+	{ title, selection }: { title?: string; selection?: string } = {}
+): CopyFormatContext {
+	return {
+		url,
+		title: title || url,
+		host: URL.canParse(url) ? new URL(url).host : "",
+		selection: selection ?? "",
+		date: new Date().toISOString().slice(0, 10),
+	};
+}
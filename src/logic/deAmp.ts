@@ -0,0 +1,127 @@
+import { matchesHostPattern } from "./domainRules";
+import { filterParams } from "./queryString";
+
+/**
+ * Mobile host and the desktop host it is rewritten to.
+ * Subdomains in front of the mobile host are kept, e.g. en.m.wikipedia.org
+ * becomes en.wikipedia.org.
+ */
+export interface MobileHostMapping {
+	from: string;
+	to: string;
+}
+
+export const DEFAULT_MOBILE_HOSTS: MobileHostMapping[] = [
+	{ from: "m.wikipedia.org", to: "wikipedia.org" },
+	{ from: "m.wiktionary.org", to: "wiktionary.org" },
+	{ from: "mobile.twitter.com", to: "twitter.com" },
+	{ from: "mobile.x.com", to: "x.com" },
+	{ from: "m.youtube.com", to: "www.youtube.com" },
+	{ from: "m.facebook.com", to: "www.facebook.com" },
+	{ from: "m.reddit.com", to: "www.reddit.com" },
+	{ from: "m.imdb.com", to: "www.imdb.com" },
+];
+
+/**
+ * Publishers whose AMP pages are marked in the URL itself, e.g.
+ * bbc.co.uk/news/story.amp. Markers are only removed on these hosts and
+ * from links that came through an AMP cache, elsewhere "/amp" is an
+ * ordinary path segment.
+ */
+export const DEFAULT_AMP_PUBLISHERS = ["*.bbc.co.uk", "*.bbc.com"];
+
+// google.com/amp/s/example.com/page, "s/" marks an https target
+const GOOGLE_AMP_PATH = /^\/amp\/(s\/)?(.+)$/;
+// example-com.cdn.ampproject.org/c/s/example.com/page
+const AMP_CACHE_PATH = /^\/(?:c|i|v|wp)\/(s\/)?(.+)$/;
+// Parameters added by AMP caches and viewers
+const AMP_PARAM = /^(?:usqp|amp_.+)$/;
+
+/**
+ * Extract the publisher URL from a Google AMP viewer or AMP cache URL
+ */
+const resolveAmpCache = (parsedUrl: URL): string | null => {
+	const { hostname, pathname, search, hash } = parsedUrl;
+	const match = matchesHostPattern(hostname, "*.google.*")
+		? GOOGLE_AMP_PATH.exec(pathname)
+		: matchesHostPattern(hostname, "*.cdn.ampproject.org")
+			? AMP_CACHE_PATH.exec(pathname)
+			: null;
+	if (!match) return null;
+
+	const [, secure, rest] = match;
+	const params = filterParams(search, (key) => !AMP_PARAM.test(key));
+	const target = `${secure ? "https" : "http"}://${rest}${params}${hash}`;
+	return URL.canParse(target) ? target : null;
+};
+
+/**
+ * Remove the AMP marker from a publisher URL:
+ * a trailing "/amp" segment, an ".amp" extension or an "amp" parameter
+ */
+const stripAmpMarker = (url: string): string => {
+	const parsedUrl = new URL(url);
+	const pathname =
+		parsedUrl.pathname.replace(/\/amp(\/?)$/, "$1").replace(/\.amp$/, "") ||
+		"/";
+	const search = filterParams(parsedUrl.search, (key) => key !== "amp");
+	if (pathname === parsedUrl.pathname && search === parsedUrl.search) {
+		return url;
+	}
+
+	parsedUrl.pathname = pathname;
+	parsedUrl.search = search;
+	return parsedUrl.href;
+};
+
+/**
+ * Rewrite an AMP link to the publisher's own URL
+ */
+export function resolveAmpUrl(
+	url: string,
+	publishers: string[] = DEFAULT_AMP_PUBLISHERS
+): string {
+	const target = resolveAmpCache(new URL(url));
+	if (target) return stripAmpMarker(target);
+
+	const { hostname } = new URL(url);
+	return publishers.some((pattern) => matchesHostPattern(hostname, pattern))
+		? stripAmpMarker(url)
+		: url;
+}
+
+/**
+ * Rewrite a mobile host to its desktop host using the mapping table
+ */
+export function toDesktopUrl(
+	url: string,
+	mappings: MobileHostMapping[] = DEFAULT_MOBILE_HOSTS
+): string {
+	const parsedUrl = new URL(url);
+	const hostname = parsedUrl.hostname;
+
+	for (const { from, to } of mappings) {
+		const mobile = from.toLowerCase();
+		if (hostname !== mobile && !hostname.endsWith(`.${mobile}`)) continue;
+
+		parsedUrl.hostname = hostname.slice(0, -mobile.length) + to;
+		return parsedUrl.href;
+	}
+
+	return url;
+}
+
+/**
+ * Parse a mapping table with one "mobile = desktop" pair per line.
+ * Lines without both hosts are skipped.
+ */
+export function parseMobileHosts(text: string): MobileHostMapping[] {
+	return text
+		.split("\n")
+		.map((line) => line.split("=").map((host) => host.trim()))
+		.filter(([from, to]) => from && to)
+		.map(([from, to]) => ({ from, to }));
+}
+
+export const formatMobileHosts = (mappings: MobileHostMapping[]) =>
+	mappings.map(({ from, to }) => `${from} = ${to}`).join("\n");
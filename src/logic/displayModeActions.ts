@@ -0,0 +1,73 @@
+import type { ContextMenuItem } from "~/utils/contextMenu";
+import { browser, showNotification } from "~/utils/browser";
+import {
+	getDisplayMode,
+	isSidebarSupported,
+	setDisplayMode,
+} from "~/utils/displayMode";
+
+/**
+ * Switch between popup and sidebar display mode.
+ * The background re-applies the mode when the stored value changes.
+ */
+export const toggleDisplayModeAction = () => {
+	return {
+		title: "Toggle Display Mode",
+		contexts: ["action"],
+		action: async () => {
+			const mode = (await getDisplayMode()) === "popup" ? "sidebar" : "popup";
+			await setDisplayMode(mode);
+
+			console.log("[DisplayMode] Toggled display mode:", mode);
+			showNotification(
+				"Display Mode",
+				`Switched to ${mode === "popup" ? "popup" : "sidebar"} mode.`
+			);
+		},
+	} as const satisfies ContextMenuItem;
+};
+
+/**
+ * Open the sidebar in the current window.
+ * sidePanel.open() needs a user gesture, so it is called before any await.
+ * Popup mode disables the panel, so it is enabled for the tab first.
+ */
+export const openSidebarAction = () => {
+	return {
+		title: "Open Sidebar",
+		contexts: ["action"],
+		action: async ({ tab }) => {
+			if (!isSidebarSupported()) {
+				showNotification(
+					"Open Sidebar",
+					`The sidebar is not supported in ${browser.getBrowserName()}.`,
+					true
+				);
+				return;
+			}
+
+			if (tab?.id !== undefined) {
+				// Not awaited, the call is made before open() either way
+				browser.sidePanel
+					.setOptions({
+						tabId: tab.id,
+						enabled: true,
+						path: "src/sidebar/index.html",
+					})
+					.catch((error) => {
+						console.warn("[DisplayMode] Could not enable sidebar:", error);
+					});
+			}
+			try {
+				await browser.sidePanel.open({ tabId: tab?.id });
+			} catch (error) {
+				console.warn("[DisplayMode] Could not open sidebar:", error);
+				showNotification(
+					"Open Sidebar",
+					"The sidebar could not be opened.",
+					true
+				);
+			}
+		},
+	} as const satisfies ContextMenuItem;
+};
@@ -0,0 +1,51 @@
+import { matchesHostPattern } from "./domainRules";
+
+/**
+ * - skip-clean: never clean links to matching URLs
+ * - strict: always clean matching URLs in strict mode
+ * - mute-notifications: no notifications about matching pages
+ */
+export type DomainPolicyAction = "skip-clean" | "strict" | "mute-notifications";
+
+export interface DomainPolicy {
+	/** Host pattern, same syntax as DomainRule.hosts */
+	host: string;
+	/** Only match paths starting with this prefix, e.g. "/app/" */
+	pathPrefix?: string;
+	action: DomainPolicyAction;
+}
+
+export const DOMAIN_POLICIES_STORAGE_KEY = "domainPolicies";
+
+export const DOMAIN_POLICY_ACTIONS: Record<DomainPolicyAction, string> = {
+	"skip-clean": "Never clean",
+	strict: "Always strict",
+	"mute-notifications": "No notifications",
+};
+
+/**
+ * Check if a URL matches the host pattern and path prefix of a policy
+ */
+export function matchesDomainPolicy(
+	url: string,
+	policy: DomainPolicy
+): boolean {
+	if (!URL.canParse(url) || !policy.host) return false;
+	const { hostname, pathname } = new URL(url);
+	return (
+		matchesHostPattern(hostname, policy.host) &&
+		pathname.startsWith(policy.pathPrefix || "/")
+	);
+}
+
+/**
+ * Check if any policy with the given action applies to a URL
+ */
+export const hasDomainPolicy = (
+	url: string,
+	policies: DomainPolicy[],
+	action: DomainPolicyAction
+) =>
+	policies.some(
+		(policy) => policy.action === action && matchesDomainPolicy(url, policy)
+	);
@@ -0,0 +1,243 @@
+/**
+ * Per-domain cleaning rules
+ * Rules are plain JSON-serializable objects so they can be stored and shared
+ */
+export interface DomainRule {
+	/** Human-readable rule name */
+	name: string;
+	/**
+	 * Host patterns this rule applies to
+	 * - "youtu.be" matches exactly
+	 * - "*.youtube.com" matches youtube.com and any subdomain
+	 * - "amazon.*" matches any public suffix (amazon.de, amazon.co.uk, ...)
+	 */
+	hosts: string[];
+	/** Parameters to always keep, even in strict mode ("name" or "prefix*") */
+	keepParams?: string[];
+	/** Parameters to always drop, even in balanced mode ("name" or "prefix*") */
+	dropParams?: string[];
+	/** Path rewrites to a canonical form, applied in order */
+	rewrites?: { pattern: string; replacement: string }[];
+}
+
+export const BUILT_IN_DOMAIN_RULES: DomainRule[] = [
+	{
+		name: "Amazon",
+		hosts: ["*.amazon.*"],
+		keepParams: ["k", "i", "node", "page"],
+		dropParams: [
+			"ref",
+			"ref_",
+			"pd_rd_*",
+			"pf_rd_*",
+			"qid",
+			"sr",
+			"crid",
+			"sprefix",
+			"keywords",
+			"th",
+			"psc",
+			"content-id",
+			"_encoding",
+			"tag",
+			"linkCode",
+			"linkId",
+			"camp",
+			"creative",
+			"creativeASIN",
+			"ascsubtag",
+			"dib",
+			"dib_tag",
+		],
+		rewrites: [
+			{
+				pattern:
+					"^/(?:[^/]+/)?(?:dp|gp/product|gp/aw/d)/([A-Z0-9]{10})(?:/.*)?$",
+				replacement: "/dp/$1",
+			},
+		],
+	},
+	{
+		name: "YouTube",
+		hosts: ["*.youtube.com"],
+		keepParams: ["v", "t", "list", "index", "search_query"],
+		dropParams: [
+			"si",
+			"feature",
+			"pp",
+			"ab_channel",
+			"embeds_referring_*",
+		],
+	},
+	{
+		name: "YouTube short links",
+		hosts: ["youtu.be"],
+		keepParams: ["t", "list"],
+		dropParams: ["si", "feature"],
+	},
+	{
+		name: "AliExpress",
+		hosts: ["*.aliexpress.*"],
+		dropParams: [
+			"spm",
+			"scm",
+			"scm_id",
+			"scm-url",
+			"pvid",
+			"algo_pvid",
+			"algo_exp_id",
+			"aff_*",
+			"sk",
+			"gatewayAdapt",
+			"_t",
+			"pdp_*",
+			"utparam*",
+			"btsid",
+			"ws_ab_test",
+			"gps-id",
+			"terminal_id",
+		],
+		rewrites: [
+			{
+				pattern: "^/item/(?:[^/]+/)?(\\d+)\\.html.*$",
+				replacement: "/item/$1.html",
+			},
+		],
+	},
+	{
+		name: "eBay",
+		hosts: ["*.ebay.*"],
+		keepParams: ["_nkw", "_pgn"],
+		dropParams: [
+			"_trkparms",
+			"_trksid",
+			"hash",
+			"amdata",
+			"mkcid",
+			"mkrid",
+			"mkevt",
+			"campid",
+			"toolid",
+			"customid",
+		],
+		rewrites: [
+			{
+				pattern: "^/itm/(?:[^/]+/)?(\\d+).*$",
+				replacement: "/itm/$1",
+			},
+		],
+	},
+	{
+		name: "Spotify",
+		hosts: ["open.spotify.com"],
+		dropParams: ["si", "nd", "context"],
+	},
+	{
+		name: "Twitter / X",
+		hosts: ["*.twitter.com", "*.x.com"],
+		dropParams: ["s", "t", "ref_src", "ref_url"],
+	},
+	{
+		name: "Instagram",
+		hosts: ["*.instagram.com"],
+		dropParams: ["igsh", "igshid", "img_index"],
+	},
+	{
+		name: "Reddit",
+		hosts: ["*.reddit.com"],
+		dropParams: ["share_id", "ref", "ref_source", "rdt"],
+	},
+	{
+		name: "LinkedIn",
+		hosts: ["*.linkedin.com"],
+		dropParams: ["trk", "trkInfo", "trackingId", "lipi", "refId"],
+	},
+];
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Regex source for the public suffixes "example.*" stands for: a top-level
+ * domain, or a second-level domain under a country code (co.uk, com.au)
+ */
+export const PUBLIC_SUFFIX_SOURCE =
+	"(?:[a-z]{2,}|(?:ac|co|com|edu|gov|ne|net|or|org)\\.[a-z]{2})";
+
+/**
+ * Registrable domain of a hostname ("news.example.co.uk" -> "example.co.uk"),
+ * for the same public suffixes as "example.*" patterns
+ */
+export function getSiteDomain(hostname: string): string {
+	const host = hostname.toLowerCase().replace(/\.$/, "");
+	const match = new RegExp(
+		`(?:^|\\.)([^.]+\\.${PUBLIC_SUFFIX_SOURCE})$`
+	).exec(host);
+	return match?.[1] ?? host;
+}
+
+/**
+ * Check if a hostname matches a host pattern (see DomainRule.hosts)
+ */
+export function matchesHostPattern(
+	hostname: string,
+	pattern: string
+): boolean {
+	let value = pattern.toLowerCase();
+	let prefix = "";
+	let suffix = "";
+
+	// "*.example.com" also matches the bare domain
+	if (value.startsWith("*.")) {
+		prefix = "(?:[^.]+\\.)*";
+		value = value.slice(2);
+	}
+	// "example.*" matches public suffixes only, not any other domain
+	if (value.endsWith(".*")) {
+		suffix = `\\.${PUBLIC_SUFFIX_SOURCE}`;
+		value = value.slice(0, -2);
+	}
+	const body = value.split("*").map(escapeRegExp).join("[^.]*");
+
+	return new RegExp(`^${prefix}${body}${suffix}$`).test(
+		hostname.toLowerCase()
+	);
+}
+
+/**
+ * Check if a parameter name matches a parameter pattern ("name" or "prefix*")
+ */
+export function matchesParamPattern(name: string, pattern: string): boolean {
+	if (pattern.endsWith("*")) {
+		return name.startsWith(pattern.slice(0, -1));
+	}
+	return name === pattern;
+}
+
+/**
+ * Find all rules that apply to a hostname
+ */
+export function findDomainRules(
+	hostname: string,
+	rules: DomainRule[] = BUILT_IN_DOMAIN_RULES
+): DomainRule[] {
+	return rules.filter((rule) =>
+		rule.hosts.some((pattern) => matchesHostPattern(hostname, pattern))
+	);
+}
+
+/**
+ * Rewrite a pathname to its canonical form using the rules' rewrites
+ */
+export function canonicalizePath(pathname: string, rules: DomainRule[]) {
+	let result = pathname;
+	for (const rule of rules) {
+		for (const rewrite of rule.rewrites ?? []) {
+			const regex = new RegExp(rewrite.pattern);
+			if (regex.test(result)) {
+				result = result.replace(regex, rewrite.replacement);
+			}
+		}
+	}
+	return result;
+}
@@ -0,0 +1,143 @@
+/**
+ * Best matching link of a frame, as returned by findLinkCandidate
+ */
+export interface LinkCandidate {
+	href: string;
+	/** Higher is better, see findLinkCandidate */
+	score: number;
+	frameId?: number;
+}
+
+/**
+ * Bonus for candidates in the frame the context menu was opened in
+ */
+const CLICKED_FRAME_BONUS = 5;
+
+/**
+ * Find the link matching a selection in the current document.
+ * Injected into every frame with chrome.scripting, so it must stay
+ * self-contained (no references to module scope).
+ *
+ * Scores, highest first:
+ * - 100: anchor enclosing the DOM selection range
+ * - 90: href equal to the selection
+ * - 80: link text equal to the selection (whitespace-normalized)
+ * - 60-70: link text containing the selection
+ * - 40-50: selection containing the link text
+ * - +15: anchor intersecting the selection range
+ */
+export function findLinkCandidate(
+	selection: string
+): { href: string; score: number } | null {
+	const normalize = (text: string) =>
+		text.replace(/\s+/g, " ").trim().toLowerCase();
+	const target = normalize(selection);
+	if (!target) return null;
+
+	// Collect anchors from the document and every open shadow root
+	const anchors: HTMLAnchorElement[] = [];
+	const collect = (root: Document | ShadowRoot) => {
+		for (const element of root.querySelectorAll("*")) {
+			if (element instanceof HTMLAnchorElement && element.href) {
+				anchors.push(element);
+			}
+			if (element.shadowRoot) collect(element.shadowRoot);
+		}
+	};
+	collect(document);
+
+	// Walk up from a node to its enclosing anchor, crossing shadow boundaries
+	const closestAnchor = (node: Node | null): HTMLAnchorElement | null => {
+		while (node) {
+			if (node instanceof HTMLAnchorElement && node.href) return node;
+			node =
+				node.parentNode ??
+				(node instanceof ShadowRoot ? node.host : null);
+		}
+		return null;
+	};
+
+	const range = (() => {
+		const domSelection = window.getSelection();
+		if (!domSelection || domSelection.rangeCount === 0) return null;
+		if (!normalize(domSelection.toString())) return null;
+		return domSelection.getRangeAt(0);
+	})();
+
+	if (range) {
+		const enclosing = closestAnchor(range.commonAncestorContainer);
+		if (enclosing) return { href: enclosing.href, score: 100 };
+	}
+
+	let best: { href: string; score: number } | null = null;
+	for (const anchor of anchors) {
+		const text = normalize(anchor.innerText ?? anchor.textContent ?? "");
+		let score = 0;
+		if (anchor.href === selection.trim()) {
+			score = 90;
+		} else if (text === target) {
+			score = 80;
+		} else if (text && text.includes(target)) {
+			// Prefer links whose text is mostly the selection
+			score = 60 + Math.round((10 * target.length) / text.length);
+		} else if (text.length >= 3 && target.includes(text)) {
+			score = 40 + Math.round((10 * text.length) / target.length);
+		}
+		if (score === 0) continue;
+
+		try {
+			if (range?.intersectsNode(anchor)) score += 15;
+		} catch {
+			// Anchors in shadow roots cannot be compared with the range
+		}
+
+		if (!best || score > best.score) {
+			best = { href: anchor.href, score };
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Pick the best candidate across frames, favouring the clicked frame on ties
+ */
+export function pickBestLink(
+	candidates: LinkCandidate[],
+	frameId?: number
+): string | null {
+	const ranked = candidates
+		.map((candidate) => ({
+			...candidate,
+			score:
+				candidate.score +
+				(frameId !== undefined && candidate.frameId === frameId
+					? CLICKED_FRAME_BONUS
+					: 0),
+		}))
+		.sort((a, b) => b.score - a.score);
+
+	return ranked[0]?.href ?? null;
+}
+
+/**
+ * Resolve a selection to a link URL by searching every frame of a tab
+ */
+export async function findLinkBySelection(
+	tabId: number | undefined,
+	selection?: string,
+	frameId?: number
+): Promise<string | null> {
+	if (!selection || tabId === undefined) return null;
+
+	const results = await chrome.scripting.executeScript({
+		target: { tabId, allFrames: true },
+		func: findLinkCandidate,
+		args: [selection],
+	});
+
+	const candidates: LinkCandidate[] = (results ?? []).flatMap((result) =>
+		result.result ? [{ ...result.result, frameId: result.frameId }] : []
+	);
+	return pickBestLink(candidates, frameId);
+}
@@ -0,0 +1,204 @@
+/**
+ * Normalization applied by the "normalize" pipeline step.
+ * Hosts are always lowercased and default ports dropped by the URL parser.
+ */
+export interface NormalizeOptions {
+	/** Host form in the output: ASCII (xn--) or Unicode */
+	idn: "punycode" | "unicode";
+	/** Collapse "//" in the path into a single slash */
+	collapseSlashes: boolean;
+	/**
+	 * - keep: leave the path as is
+	 * - add: add a trailing slash to paths whose last segment has no extension
+	 * - remove: remove the trailing slash (except for the root path)
+	 */
+	trailingSlash: "keep" | "add" | "remove";
+	/** Sort the remaining query parameters by name */
+	sortParams: boolean;
+	/** Decode percent-encoded unreserved characters and uppercase the rest */
+	decodePercent: boolean;
+}
+
+export const DEFAULT_NORMALIZE_OPTIONS: NormalizeOptions = {
+	idn: "punycode",
+	collapseSlashes: false,
+	trailingSlash: "keep",
+	sortParams: false,
+	decodePercent: false,
+};
+
+// Punycode parameters (RFC 3492)
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+
+const adapt = (delta: number, numPoints: number, firstTime: boolean) => {
+	delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+	delta += Math.floor(delta / numPoints);
+	let k = 0;
+	while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+		delta = Math.floor(delta / (BASE - T_MIN));
+		k += BASE;
+	}
+	return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW));
+};
+
+const decodeDigit = (codePoint: number) => {
+	if (codePoint >= 0x30 && codePoint <= 0x39) return codePoint - 22;
+	if (codePoint >= 0x41 && codePoint <= 0x5a) return codePoint - 0x41;
+	if (codePoint >= 0x61 && codePoint <= 0x7a) return codePoint - 0x61;
+	return BASE;
+};
+
+/**
+ * Decode a punycode label (without the "xn--" prefix)
+ */
+export function decodePunycode(input: string): string {
+	const output: number[] = [];
+	const basic = Math.max(input.lastIndexOf("-"), 0);
+	for (let j = 0; j < basic; j++) output.push(input.charCodeAt(j));
+
+	let n = INITIAL_N;
+	let bias = INITIAL_BIAS;
+	let i = 0;
+	for (let index = basic > 0 ? basic + 1 : 0; index < input.length; ) {
+		const oldI = i;
+		let w = 1;
+		for (let k = BASE; ; k += BASE) {
+			if (index >= input.length) throw new Error("Invalid punycode");
+			const digit = decodeDigit(input.charCodeAt(index++));
+			if (digit >= BASE) throw new Error("Invalid punycode");
+			i += digit * w;
+			const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+			if (digit < t) break;
+			w *= BASE - t;
+		}
+		const length = output.length + 1;
+		bias = adapt(i - oldI, length, oldI === 0);
+		n += Math.floor(i / length);
+		i %= length;
+		output.splice(i++, 0, n);
+	}
+
+	return String.fromCodePoint(...output);
+}
+
+/**
+ * Convert "xn--" labels of a hostname to Unicode.
+ * The URL parser does the opposite conversion.
+ */
+export function toUnicodeHostname(hostname: string): string {
+	return hostname
+		.split(".")
+		.map((label) => {
+			if (!label.toLowerCase().startsWith("xn--")) return label;
+			try {
+				return decodePunycode(label.slice(4));
+			} catch {
+				return label;
+			}
+		})
+		.join(".");
+}
+
+const UNRESERVED = /^[A-Za-z0-9\-._~]$/;
+
+/**
+ * Decode %XX escapes of unreserved characters and uppercase the others
+ */
+export function decodeUnreserved(value: string): string {
+	return value.replace(/%([0-9A-Fa-f]{2})/g, (_match, hex: string) => {
+		const char = String.fromCharCode(parseInt(hex, 16));
+		return UNRESERVED.test(char) ? char : `%${hex.toUpperCase()}`;
+	});
+}
+
+/**
+ * Sort query parameters by name, keeping the order of repeated names
+ */
+export function sortParams(search: string): string {
+	const params = search.replace(/^\?/, "").split("&").filter(Boolean);
+	if (params.length === 0) return "";
+
+	// Plain code unit comparison, so the order does not depend on the locale.
+	// Array sort is stable, repeated names keep their relative order.
+	const name = (pair: string) => pair.split("=")[0];
+	const sorted = [...params].sort((a, b) =>
+		name(a) < name(b) ? -1 : name(a) > name(b) ? 1 : 0
+	);
+	return `?${sorted.join("&")}`;
+}
+
+const applyTrailingSlash = (
+	pathname: string,
+	policy: NormalizeOptions["trailingSlash"]
+) => {
+	if (policy === "remove" && pathname.length > 1) {
+		return pathname.replace(/\/+$/, "") || "/";
+	}
+	if (policy === "add" && !pathname.endsWith("/")) {
+		const lastSegment = pathname.slice(pathname.lastIndexOf("/") + 1);
+		return lastSegment.includes(".") ? pathname : `${pathname}/`;
+	}
+	return pathname;
+};
+
+/**
+ * Normalize a URL so equivalent URLs produce the same string.
+ * Credentials are always dropped, the fragment unless keepFragment is set.
+ */
+export function normalizeUrl(
+	url: string,
+	options: Partial<NormalizeOptions> = {},
+	keepFragment = false
+): string {
+	const {
+		idn,
+		collapseSlashes,
+		trailingSlash,
+		sortParams: sort,
+		decodePercent,
+	} = { ...DEFAULT_NORMALIZE_OPTIONS, ...options };
+	const parsedUrl = new URL(url);
+
+	let pathname = parsedUrl.pathname;
+	let search = parsedUrl.search;
+	if (collapseSlashes) pathname = pathname.replace(/\/{2,}/g, "/");
+	pathname = applyTrailingSlash(pathname, trailingSlash);
+	if (decodePercent) {
+		pathname = decodeUnreserved(pathname);
+		search = decodeUnreserved(search);
+	}
+	if (sort) search = sortParams(search);
+
+	const hostname =
+		idn === "unicode"
+			? toUnicodeHostname(parsedUrl.hostname)
+			: parsedUrl.hostname;
+	const port = parsedUrl.port ? `:${parsedUrl.port}` : "";
+	const hash = keepFragment ? parsedUrl.hash : "";
+
+	return `${parsedUrl.protocol}//${hostname}${port}${pathname}${search}${hash}`;
+}
+
+/**
+ * Drop the credentials of a URL, and the fragment unless keepFragment is set.
+ * URLs without either are returned as is.
+ */
+export function dropCredentialsAndFragment(
+	url: string,
+	keepFragment = false
+): string {
+	const parsedUrl = new URL(url);
+	const dropHash = !keepFragment && url.includes("#");
+	if (!parsedUrl.username && !parsedUrl.password && !dropHash) return url;
+
+	parsedUrl.username = "";
+	parsedUrl.password = "";
+	if (dropHash) parsedUrl.hash = "";
+	return parsedUrl.href;
+}
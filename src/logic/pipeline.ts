@@ -0,0 +1,155 @@
+import type { CleanMode } from "./cleanCopyUrl";
+import type { DomainRule } from "./domainRules";
+import type { ClearUrlsProviders } from "./clearUrls";
+import type { NormalizeOptions } from "./normalizeUrl";
+import type { MobileHostMapping } from "./deAmp";
+import { BUILT_IN_TRANSFORMERS } from "./transformers";
+
+/**
+ * Options and accumulated results shared by the transformers of a run
+ */
+export interface TransformContext {
+	mode: CleanMode;
+	keepFragment: boolean;
+	rules: DomainRule[];
+	providers: ClearUrlsProviders;
+	normalize: NormalizeOptions;
+	mobileHosts: MobileHostMapping[];
+	/** Host patterns whose AMP markers are removed without an AMP cache */
+	ampPublishers: string[];
+	/** Names of the rules that changed the URL */
+	applied: Set<string>;
+	/** Names of the query parameters that were removed */
+	removedParams: string[];
+	warnings: string[];
+}
+
+/**
+ * A named step of the cleaning pipeline.
+ * Transformers receive and return a full URL string and may record what
+ * they did in the context.
+ */
+export interface UrlTransformer {
+	id: string;
+	name: string;
+	description?: string;
+	transform: (url: string, context: TransformContext) => string;
+}
+
+/**
+ * Stored order and enabled state of a transformer
+ */
+export interface TransformerConfig {
+	id: string;
+	enabled: boolean;
+}
+
+export interface PipelineStep {
+	id: string;
+	name: string;
+	before: string;
+	after: string;
+}
+
+export interface PipelineResult {
+	url: string;
+	/** Before/after of every transformer that ran, for debugging */
+	trace: PipelineStep[];
+	/** Protocol that stopped the pipeline, e.g. a redirect to javascript: */
+	unsupportedProtocol?: string;
+}
+
+export const SUPPORTED_PROTOCOLS = ["http:", "https:"];
+
+const transformers = new Map<string, UrlTransformer>();
+
+/**
+ * Register a transformer, replacing any transformer with the same id.
+ * New transformers run after the configured ones unless the stored
+ * configuration places them elsewhere.
+ * Returns a function that unregisters it.
+ */
+export function registerTransformer(transformer: UrlTransformer): () => void {
+	transformers.set(transformer.id, transformer);
+	return () => {
+		if (transformers.get(transformer.id) === transformer) {
+			transformers.delete(transformer.id);
+		}
+	};
+}
+
+/**
+ * Get all registered transformers in registration order
+ */
+export function getTransformers(): UrlTransformer[] {
+	return [...transformers.values()];
+}
+
+/**
+ * Merge the stored configuration with the registered transformers.
+ * Unknown ids are dropped and unconfigured transformers are appended enabled.
+ */
+export function getPipelineConfig(
+	config: TransformerConfig[] = []
+): TransformerConfig[] {
+	const known = config.filter(({ id }) => transformers.has(id));
+	const configured = new Set(known.map(({ id }) => id));
+	const added = getTransformers()
+		.filter(({ id }) => !configured.has(id))
+		.map(({ id }) => ({ id, enabled: true }));
+	return [...known, ...added];
+}
+
+/**
+ * Resolve the enabled transformers in their configured order
+ */
+export function resolvePipeline(
+	config: TransformerConfig[] = []
+): UrlTransformer[] {
+	return getPipelineConfig(config)
+		.filter(({ enabled }) => enabled)
+		.map(({ id }) => transformers.get(id) as UrlTransformer);
+}
+
+/**
+ * Run a URL through the transformers, recording every step.
+ * Stops early when a step produces a URL with an unsupported protocol.
+ */
+export function runPipeline(
+	url: string,
+	context: TransformContext,
+	pipeline: UrlTransformer[] = resolvePipeline()
+): PipelineResult {
+	const trace: PipelineStep[] = [];
+	let current = url;
+
+	for (const transformer of pipeline) {
+		const before = current;
+		current = transformer.transform(before, context);
+		trace.push({
+			id: transformer.id,
+			name: transformer.name,
+			before,
+			after: current,
+		});
+		if (current !== before) {
+			console.debug(
+				`[Pipeline] ${transformer.id}:`,
+				before,
+				"->",
+				current
+			);
+		}
+
+		const { protocol } = new URL(current);
+		if (!SUPPORTED_PROTOCOLS.includes(protocol)) {
+			return { url: current, trace, unsupportedProtocol: protocol };
+		}
+	}
+
+	return { url: current, trace };
+}
+
+BUILT_IN_TRANSFORMERS.forEach((transformer) =>
+	registerTransformer(transformer)
+);
@@ -0,0 +1,25 @@
+/**
+ * Filter a raw query string by parameter name.
+ * Works on the raw string so the remaining parameters keep their original encoding.
+ */
+export const filterParams = (
+	search: string,
+	keep: (key: string) => boolean
+) => {
+	const params = search
+		.replace(/^\?/, "")
+		.split("&")
+		.filter((pair) => {
+			if (pair === "") return false;
+			const [rawKey] = pair.split("=");
+			let key = rawKey;
+			try {
+				key = decodeURIComponent(rawKey.replace(/\+/g, " "));
+			} catch {
+				// Keep malformed keys as-is
+			}
+			return keep(key);
+		});
+
+	return params.length > 0 ? `?${params.join("&")}` : "";
+};
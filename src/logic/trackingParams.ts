@@ -0,0 +1,99 @@
+/**
+ * Known tracking query parameters
+ * Exact names are matched case-insensitively
+ */
+export const TRACKING_PARAMS: readonly string[] = [
+	// Google / DoubleClick
+	"gclid",
+	"gclsrc",
+	"dclid",
+	"gbraid",
+	"wbraid",
+	"_ga",
+	"_gl",
+	"srsltid",
+	// Meta
+	"fbclid",
+	"igshid",
+	"igsh",
+	// Microsoft / Yandex / TikTok / Twitter / LinkedIn
+	"msclkid",
+	"yclid",
+	"ttclid",
+	"twclid",
+	"li_fat_id",
+	// Mailchimp / HubSpot / Marketo / other mailers
+	"mc_cid",
+	"mc_eid",
+	"_hsenc",
+	"_hsmi",
+	"__hssc",
+	"__hstc",
+	"__hsfp",
+	"hsctatracking",
+	"mkt_tok",
+	"vero_conv",
+	"vero_id",
+	"oly_anon_id",
+	"oly_enc_id",
+	"rb_clickid",
+	"s_cid",
+	"wickedid",
+	"ml_subscriber",
+	"ml_subscriber_hash",
+];
+
+/**
+ * Known tracking parameter prefixes (e.g. utm_source, utm_medium, ...)
+ */
+export const TRACKING_PARAM_PREFIXES: readonly string[] = [
+	"utm_",
+	"pk_",
+	"mtm_",
+	"stm_",
+];
+
+/**
+ * Common expansions of the tracking prefixes, for APIs that only accept exact
+ * parameter names (e.g. declarativeNetRequest removeParams)
+ */
+export const PREFIXED_TRACKING_PARAMS: readonly string[] = [
+	"utm_source",
+	"utm_medium",
+	"utm_campaign",
+	"utm_term",
+	"utm_content",
+	"utm_id",
+	"utm_name",
+	"utm_source_platform",
+	"utm_creative_format",
+	"utm_marketing_tactic",
+	"utm_brand",
+	"utm_social",
+	"utm_social-type",
+	"pk_campaign",
+	"pk_kwd",
+	"pk_keyword",
+	"pk_source",
+	"pk_medium",
+	"pk_content",
+	"mtm_campaign",
+	"mtm_keyword",
+	"mtm_source",
+	"mtm_medium",
+	"mtm_content",
+	"mtm_cid",
+	"mtm_group",
+	"mtm_placement",
+];
+
+/**
+ * Check if a query parameter name is a known tracking parameter
+ */
+export function isTrackingParam(name: string): boolean {
+	const key = name.toLowerCase();
+	return (
+		TRACKING_PARAMS.includes(key) ||
+		TRACKING_PARAM_PREFIXES.some((prefix) => key.startsWith(prefix))
+	);
+}
@@ -0,0 +1,172 @@
+import type { CleanMode } from "./cleanCopyUrl";
+import type { UrlTransformer } from "./pipeline";
+import { isTrackingParam } from "./trackingParams";
+import {
+	canonicalizePath,
+	findDomainRules,
+	matchesParamPattern,
+	type DomainRule,
+} from "./domainRules";
+import { MAX_UNWRAP_DEPTH, unwrapUrl } from "./unwrapUrl";
+import { applyClearUrlsProviders } from "./clearUrls";
+import { filterParams } from "./queryString";
+import { normalizeUrl } from "./normalizeUrl";
+import { resolveAmpUrl, toDesktopUrl } from "./deAmp";
+
+/**
+ * Decide whether a parameter is kept, and which rule dropped it otherwise
+ */
+export const paramDecision = (
+	key: string,
+	mode: CleanMode,
+	rules: DomainRule[]
+): { keep: boolean; rule?: string } => {
+	const matchesAny = (patterns?: string[]) =>
+		patterns?.some((pattern) => matchesParamPattern(key, pattern)) ??
+		false;
+
+	if (rules.some((rule) => matchesAny(rule.keepParams))) {
+		return { keep: true };
+	}
+	// Known parameters are credited to their rule, even in strict mode
+	const dropRule = rules.find((rule) => matchesAny(rule.dropParams));
+	if (dropRule) return { keep: false, rule: dropRule.name };
+	if (mode === "strict") return { keep: false, rule: "Strict mode" };
+	if (isTrackingParam(key)) {
+		return { keep: false, rule: "Tracking parameters" };
+	}
+	return { keep: true };
+};
+
+/**
+ * Resolve redirect/safelink wrappers to their real target
+ */
+export const unwrapTransformer: UrlTransformer = {
+	id: "unwrap",
+	name: "Unwrap redirects",
+	description: "Replace redirect and safelink wrappers with their target",
+	transform: (url, context) => {
+		const target = unwrapUrl(url);
+		if (target !== url) context.applied.add("Redirect unwrap");
+		return target;
+	},
+};
+
+/**
+ * Replace AMP links and mobile hosts with the publisher's desktop URL
+ */
+export const deAmpTransformer: UrlTransformer = {
+	id: "de-amp",
+	name: "De-AMP",
+	description: "Replace AMP pages and mobile sites with the desktop URL",
+	transform: (url, context) => {
+		const canonical = resolveAmpUrl(url, context.ampPublishers);
+		if (canonical !== url) context.applied.add("AMP page");
+		const desktop = toDesktopUrl(canonical, context.mobileHosts);
+		if (desktop !== canonical) context.applied.add("Mobile site");
+		return desktop;
+	},
+};
+
+/**
+ * Apply the user's ClearURLs providers.
+ * Providers may redirect too, so each target is unwrapped and cleaned again.
+ */
+export const customTransformer: UrlTransformer = {
+	id: "custom",
+	name: "Custom rules",
+	description: "Apply imported rules in the ClearURLs format",
+	transform: (url, context) => {
+		let target = url;
+		for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+			const result = applyClearUrlsProviders(target, context.providers);
+			result.applied.forEach((name) => context.applied.add(name));
+			context.removedParams.push(...result.removedParams);
+			target = result.redirected ? unwrapUrl(result.url) : result.url;
+			if (!result.redirected) break;
+		}
+		return target;
+	},
+};
+
+/**
+ * Rewrite paths to their canonical form with the matching domain rules
+ */
+export const canonicalizePathTransformer: UrlTransformer = {
+	id: "canonicalize-path",
+	name: "Canonicalize path",
+	description: "Rewrite paths with site rules, e.g. Amazon /dp/<ASIN>",
+	transform: (url, context) => {
+		const parsedUrl = new URL(url);
+		let pathname = parsedUrl.pathname;
+		const domainRules = findDomainRules(parsedUrl.hostname, context.rules);
+		for (const rule of domainRules) {
+			const canonical = canonicalizePath(pathname, [rule]);
+			if (canonical !== pathname) context.applied.add(rule.name);
+			pathname = canonical;
+		}
+		if (pathname === parsedUrl.pathname) return url;
+
+		parsedUrl.pathname = pathname;
+		return parsedUrl.href;
+	},
+};
+
+/**
+ * Remove query parameters according to the clean mode and domain rules
+ */
+export const stripParamsTransformer: UrlTransformer = {
+	id: "strip-params",
+	name: "Strip parameters",
+	description: "Remove tracking (balanced) or all (strict) parameters",
+	transform: (url, context) => {
+		const parsedUrl = new URL(url);
+		const domainRules = findDomainRules(parsedUrl.hostname, context.rules);
+
+		const strictRemovals: string[] = [];
+		const search = filterParams(parsedUrl.search, (key) => {
+			const decision = paramDecision(key, context.mode, domainRules);
+			if (decision.rule) context.applied.add(decision.rule);
+			if (!decision.keep) context.removedParams.push(key);
+			if (decision.rule === "Strict mode" && !isTrackingParam(key)) {
+				strictRemovals.push(key);
+			}
+			return decision.keep;
+		});
+
+		// Strict mode can break links that need their query parameters
+		if (strictRemovals.length > 0) {
+			context.warnings.push(
+				"Strict mode removed parameters that may be required: " +
+					strictRemovals.join(", ")
+			);
+		}
+		if (search === parsedUrl.search) return url;
+
+		parsedUrl.search = search;
+		return parsedUrl.href;
+	},
+};
+
+/**
+ * Normalize the URL (see NormalizeOptions), keeping the fragment if enabled
+ */
+export const normalizeTransformer: UrlTransformer = {
+	id: "normalize",
+	name: "Normalize",
+	description: "Drop credentials and the fragment, apply URL normalization",
+	transform: (url, context) =>
+		normalizeUrl(url, context.normalize, context.keepFragment),
+};
+
+/**
+ * Built-in transformers in their default order
+ */
+export const BUILT_IN_TRANSFORMERS: UrlTransformer[] = [
+	unwrapTransformer,
+	deAmpTransformer,
+	customTransformer,
+	canonicalizePathTransformer,
+	stripParamsTransformer,
+	normalizeTransformer,
+];
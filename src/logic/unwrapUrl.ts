@@ -0,0 +1,136 @@
+import { matchesHostPattern } from "./domainRules";
+
+/**
+ * Redirect or safelink wrapper that carries the real target in a query parameter
+ */
+export interface RedirectWrapper {
+	/** Human-readable wrapper name */
+	name: string;
+	/** Host patterns, same syntax as DomainRule.hosts */
+	hosts: string[];
+	/** Path prefixes the wrapper uses, any path when omitted */
+	paths?: string[];
+	/** Query parameters that may hold the target URL, checked in order */
+	params: string[];
+}
+
+export const BUILT_IN_REDIRECT_WRAPPERS: RedirectWrapper[] = [
+	{
+		name: "Google",
+		hosts: ["*.google.*"],
+		paths: ["/url"],
+		params: ["q", "url"],
+	},
+	{
+		name: "Facebook",
+		hosts: ["l.facebook.com", "lm.facebook.com", "l.messenger.com"],
+		paths: ["/l.php"],
+		params: ["u"],
+	},
+	{
+		name: "Instagram",
+		hosts: ["l.instagram.com"],
+		params: ["u"],
+	},
+	{
+		name: "Outlook SafeLinks",
+		hosts: ["*.safelinks.protection.outlook.com"],
+		params: ["url"],
+	},
+	{
+		name: "Slack",
+		hosts: ["slack-redir.net"],
+		paths: ["/link"],
+		params: ["url"],
+	},
+	{
+		name: "YouTube",
+		hosts: ["*.youtube.com"],
+		paths: ["/redirect"],
+		params: ["q"],
+	},
+	{
+		name: "Reddit",
+		hosts: ["out.reddit.com"],
+		params: ["url"],
+	},
+	{
+		name: "DuckDuckGo",
+		hosts: ["duckduckgo.com"],
+		paths: ["/l/"],
+		params: ["uddg"],
+	},
+	{
+		name: "Steam",
+		hosts: ["steamcommunity.com"],
+		paths: ["/linkfilter/"],
+		params: ["url", "u"],
+	},
+	{
+		name: "VK",
+		hosts: ["vk.com", "m.vk.com"],
+		paths: ["/away.php"],
+		params: ["to"],
+	},
+	{
+		name: "Skimlinks",
+		hosts: ["go.skimresources.com"],
+		params: ["url"],
+	},
+];
+
+/**
+ * Maximum number of nested wrappers to unwrap
+ */
+export const MAX_UNWRAP_DEPTH = 5;
+
+const isHttpUrl = (value: string) =>
+	URL.canParse(value) && /^https?:$/.test(new URL(value).protocol);
+
+/**
+ * Extract the target URL from a single wrapper, or null if the URL is not wrapped
+ */
+export function unwrapOnce(
+	url: string,
+	wrappers: RedirectWrapper[] = BUILT_IN_REDIRECT_WRAPPERS
+): string | null {
+	if (!URL.canParse(url)) return null;
+	const parsedUrl = new URL(url);
+
+	for (const wrapper of wrappers) {
+		const hostMatches = wrapper.hosts.some((pattern) =>
+			matchesHostPattern(parsedUrl.hostname, pattern)
+		);
+		const pathMatches =
+			!wrapper.paths ||
+			wrapper.paths.some((path) => parsedUrl.pathname.startsWith(path));
+		if (!hostMatches || !pathMatches) continue;
+
+		for (const param of wrapper.params) {
+			const target = parsedUrl.searchParams.get(param);
+			if (target && isHttpUrl(target)) {
+				return target;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Recursively unwrap redirect wrappers until the real target is reached
+ */
+export function unwrapUrl(
+	url: string,
+	maxDepth = MAX_UNWRAP_DEPTH,
+	wrappers: RedirectWrapper[] = BUILT_IN_REDIRECT_WRAPPERS
+): string {
+	let current = url;
+	for (let depth = 0; depth < maxDepth; depth++) {
+		const target = unwrapOnce(current, wrappers);
+		if (!target) break;
+		console.debug("Unwrapped redirect URL:", current, "->", target);
+		current = target;
+	}
+	return current;
+}
@@ -0,0 +1,101 @@
+import type { CleanOptions, CleanResult } from "./cleanCopyUrl";
+import { BUILT_IN_DOMAIN_RULES, findDomainRules } from "./domainRules";
+import { paramDecision } from "./transformers";
+
+export interface DiffSegment {
+	kind: "same" | "removed" | "added";
+	text: string;
+}
+
+/**
+ * What happened to a query parameter during cleaning
+ */
+export interface ParamMatch {
+	name: string;
+	/** Name of the pipeline step that removed the parameter */
+	step?: string;
+	/** Rule that removed the parameter, when the step reports one */
+	rule?: string;
+}
+
+// Split on URL delimiters so the diff aligns on path segments and parameters
+const tokenize = (url: string) => url.match(/[^/?&=#]+|[/?&=#]/g) ?? [];
+
+/**
+ * Diff two URLs token by token (longest common subsequence)
+ */
+export function diffUrl(before: string, after: string): DiffSegment[] {
+	const a = tokenize(before);
+	const b = tokenize(after);
+
+	const lengths = Array.from({ length: a.length + 1 }, () =>
+		new Array<number>(b.length + 1).fill(0)
+	);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] =
+				a[i] === b[j]
+					? lengths[i + 1][j + 1] + 1
+					: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const segments: DiffSegment[] = [];
+	const push = (kind: DiffSegment["kind"], text: string) => {
+		const last = segments[segments.length - 1];
+		if (last?.kind === kind) last.text += text;
+		else segments.push({ kind, text });
+	};
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			push("same", a[i]);
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			push("removed", a[i++]);
+		} else {
+			push("added", b[j++]);
+		}
+	}
+	while (i < a.length) push("removed", a[i++]);
+	while (j < b.length) push("added", b[j++]);
+
+	return segments;
+}
+
+const paramNames = (url: string) =>
+	URL.canParse(url) ? [...new URL(url).searchParams.keys()] : [];
+
+/**
+ * List every query parameter seen while cleaning and the step that removed it.
+ * Parameters without a step are kept in the output.
+ */
+export function explainParams(
+	result: CleanResult,
+	options: CleanOptions = {}
+): ParamMatch[] {
+	const { mode = "strict", rules = BUILT_IN_DOMAIN_RULES } = options;
+	const matches = new Map<string, ParamMatch>();
+
+	for (const step of result.trace) {
+		const before = paramNames(step.before);
+		const after = new Set(paramNames(step.after));
+		for (const name of before) {
+			const match = matches.get(name) ?? { name };
+			matches.set(name, match);
+			if (after.has(name) || match.step) continue;
+
+			match.step = step.name;
+			if (step.id === "strip-params") {
+				const { hostname } = new URL(step.before);
+				const domainRules = findDomainRules(hostname, rules);
+				match.rule = paramDecision(name, mode, domainRules).rule;
+			}
+		}
+	}
+
+	return [...matches.values()];
+}
@@ -0,0 +1,47 @@
+// Offscreen document used by the clipboard service as a fallback
+import type { ClipboardResult, ClipboardWriteMessage } from "~/utils/clipboard";
+
+/**
+ * Write to the clipboard with execCommand, which unlike navigator.clipboard
+ * does not require the document to be focused
+ */
+function writeClipboard(text: string, html?: string): ClipboardResult {
+	const onCopy = (event: ClipboardEvent) => {
+		event.preventDefault();
+		event.clipboardData?.setData("text/plain", text);
+		if (html) event.clipboardData?.setData("text/html", html);
+	};
+
+	// execCommand("copy") needs a selection to fire the copy event
+	const textarea = document.getElementById(
+		"clipboard"
+	) as HTMLTextAreaElement;
+	textarea.value = text;
+	textarea.select();
+
+	document.addEventListener("copy", onCopy);
+	try {
+		if (document.execCommand("copy")) {
+			return { success: true, method: "offscreen" };
+		}
+		return {
+			success: false,
+			method: "offscreen",
+			error: "Copy command failed",
+		};
+	} catch (error) {
+		return { success: false, method: "offscreen", error: String(error) };
+	} finally {
+		document.removeEventListener("copy", onCopy);
+		textarea.value = "";
+	}
+}
+
+chrome.runtime.onMessage.addListener(
+	(message: ClipboardWriteMessage, _sender, sendResponse) => {
+		if (message?.target !== "offscreen") return;
+		if (message.type === "clipboard-write") {
+			sendResponse(writeClipboard(message.text, message.html));
+		}
+	}
+);
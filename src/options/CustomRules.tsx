@@ -0,0 +1,160 @@
+import { Component, createSignal, For, onMount, Show } from "solid-js";
+import {
+	exportClearUrlsData,
+	parseClearUrlsJson,
+	type ClearUrlsProviders,
+	type ProviderError,
+} from "../logic/clearUrls";
+import { browser } from "../utils/browser";
+import {
+	CUSTOM_RULES_STORAGE_KEY,
+	getCustomProviders,
+	setCustomProviders,
+} from "../utils/customRules";
+
+export const CustomRules: Component = () => {
+	const [providers, setProviders] = createSignal<ClearUrlsProviders>({});
+	const [errors, setErrors] = createSignal<ProviderError[]>([]);
+	const [status, setStatus] = createSignal("");
+
+	const providerNames = () => Object.keys(providers());
+
+	onMount(async () => {
+		// Rules saved from the URL lab
+		browser.storage?.onChanged.addListener((changes, areaName) => {
+			if (areaName === "local" && changes[CUSTOM_RULES_STORAGE_KEY]) {
+				setProviders(changes[CUSTOM_RULES_STORAGE_KEY].newValue ?? {});
+			}
+		});
+
+		setProviders(await getCustomProviders());
+	});
+
+	const importFile = async (file?: File) => {
+		if (!file) return;
+
+		const result = parseClearUrlsJson(await file.text());
+		const imported = Object.keys(result.providers).length;
+		setErrors(result.errors);
+
+		if (imported > 0) {
+			// Imported providers replace existing ones with the same name
+			const merged = { ...providers(), ...result.providers };
+			await setCustomProviders(merged);
+			setProviders(merged);
+		}
+		setStatus(
+			`Imported ${imported} ${imported === 1 ? "provider" : "providers"}${
+				result.errors.length > 0
+					? `, ${result.errors.length} errors`
+					: ""
+			}.`
+		);
+	};
+
+	const exportFile = () => {
+		const blob = new Blob([exportClearUrlsData(providers())], {
+			type: "application/json",
+		});
+		const url = URL.createObjectURL(blob);
+		const anchor = document.createElement("a");
+		anchor.href = url;
+		anchor.download = "custom-rules.json";
+		anchor.click();
+		URL.revokeObjectURL(url);
+	};
+
+	const removeProvider = async (name: string) => {
+		const { [name]: _removed, ...rest } = providers();
+		await setCustomProviders(rest);
+		setProviders(rest);
+	};
+
+	const clearProviders = async () => {
+		await setCustomProviders({});
+		setProviders({});
+		setErrors([]);
+		setStatus("");
+	};
+
+	return (
+		<div class="space-y-2">
+			<label class="block text-sm font-medium text-foreground">
+				Custom Rules
+			</label>
+			<p class="text-xs text-muted-foreground">
+				Import or export cleaning rules in the ClearURLs{" "}
+				<code>data.min.json</code> format. Custom rules run before the
+				built-in rules.
+			</p>
+
+			<div class="flex items-center space-x-2">
+				<label class="px-4 py-2 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors cursor-pointer">
+					Import
+					<input
+						type="file"
+						accept="application/json,.json"
+						class="hidden"
+						onChange={(e) => {
+							importFile(e.target.files?.[0]);
+							e.target.value = "";
+						}}
+					/>
+				</label>
+				<button
+					onClick={exportFile}
+					disabled={providerNames().length === 0}
+					class="px-4 py-2 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors disabled:opacity-50"
+				>
+					Export
+				</button>
+				<button
+					onClick={clearProviders}
+					disabled={providerNames().length === 0}
+					class="px-4 py-2 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors disabled:opacity-50"
+				>
+					Clear
+				</button>
+			</div>
+
+			<Show when={status()}>
+				<p class="text-xs text-foreground">{status()}</p>
+			</Show>
+
+			<Show when={errors().length > 0}>
+				<ul class="p-3 bg-amber-500/10 border border-amber-500/20 rounded-md space-y-1">
+					<For each={errors()}>
+						{(error) => (
+							<li class="text-xs text-amber-600 dark:text-amber-400">
+								<Show when={error.provider}>
+									<strong>{error.provider}</strong>:{" "}
+								</Show>
+								{error.message}
+							</li>
+						)}
+					</For>
+				</ul>
+			</Show>
+
+			<Show when={providerNames().length > 0}>
+				<ul class="space-y-1">
+					<For each={providerNames()}>
+						{(name) => (
+							<li class="flex items-center justify-between px-3 py-1 border border-border rounded-md">
+								<span class="text-sm text-foreground">
+									{name}
+								</span>
+								<button
+									onClick={() => removeProvider(name)}
+									class="text-xs text-muted-foreground hover:text-foreground"
+								>
+									Remove
+								</button>
+							</li>
+						)}
+					</For>
+				</ul>
+			</Show>
+		</div>
+	);
+};
@@ -0,0 +1,94 @@
+import { Component, For, Index } from "solid-js";
+import {
+	DOMAIN_POLICY_ACTIONS,
+	type DomainPolicy,
+	type DomainPolicyAction,
+} from "../logic/domainPolicy";
+
+export const DomainPolicies: Component<{
+	policies: DomainPolicy[];
+	onChange: (policies: DomainPolicy[]) => void;
+}> = (props) => {
+	const update = (index: number, patch: Partial<DomainPolicy>) => {
+		props.onChange(
+			props.policies.map((policy, i) =>
+				i === index ? { ...policy, ...patch } : policy
+			)
+		);
+	};
+
+	const add = () => {
+		props.onChange([...props.policies, { host: "", action: "skip-clean" }]);
+	};
+
+	const remove = (index: number) => {
+		props.onChange(props.policies.filter((_, i) => i !== index));
+	};
+
+	return (
+		<div class="space-y-2">
+			<label class="block text-sm font-medium text-foreground">
+				Domain Policies
+			</label>
+			<Index each={props.policies}>
+				{(policy, index) => (
+					<div class="flex items-center space-x-2">
+						<input
+							type="text"
+							placeholder="*.intranet.example.com"
+							value={policy().host}
+							onInput={(e) =>
+								update(index, { host: e.target.value.trim() })
+							}
+							class="flex-1 px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+						/>
+						<input
+							type="text"
+							placeholder="/path (optional)"
+							value={policy().pathPrefix ?? ""}
+							onInput={(e) =>
+								update(index, {
+									pathPrefix: e.target.value.trim() || undefined,
+								})
+							}
+							class="w-32 px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+						/>
+						<select
+							value={policy().action}
+							onChange={(e) =>
+								update(index, {
+									action: e.target.value as DomainPolicyAction,
+								})
+							}
+							class="px-3 py-2 bg-background border border-input rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+						>
+							<For each={Object.entries(DOMAIN_POLICY_ACTIONS)}>
+								{([action, label]) => (
+									<option value={action}>{label}</option>
+								)}
+							</For>
+						</select>
+						<button
+							onClick={() => remove(index)}
+							class="text-xs text-muted-foreground hover:text-foreground"
+						>
+							Remove
+						</button>
+					</div>
+				)}
+			</Index>
+			<button
+				onClick={add}
+				class="px-4 py-2 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+			>
+				Add Policy
+			</button>
+			<p class="text-xs text-muted-foreground">
+				Host patterns support wildcards (<code>*.example.com</code>,{" "}
+				<code>example.*</code>). "Never clean" copies matching links
+				unchanged, "No notifications" mutes notifications on matching
+				pages.
+			</p>
+		</div>
+	);
+};
@@ -0,0 +1,77 @@
+import { Component, For } from "solid-js";
+import type { NormalizeOptions } from "../logic/normalizeUrl";
+
+type BooleanOption = "collapseSlashes" | "sortParams" | "decodePercent";
+
+const CHECKBOXES: { key: BooleanOption; label: string }[] = [
+	{ key: "collapseSlashes", label: "Collapse duplicate slashes" },
+	{ key: "sortParams", label: "Sort query parameters by name" },
+	{ key: "decodePercent", label: "Decode unneeded escapes (%7E → ~)" },
+];
+
+export const NormalizeSettings: Component<{
+	options: NormalizeOptions;
+	onChange: (options: NormalizeOptions) => void;
+}> = (props) => {
+	const update = (changes: Partial<NormalizeOptions>) =>
+		props.onChange({ ...props.options, ...changes });
+
+	return (
+		<div class="space-y-2">
+			<label class="block text-sm font-medium text-foreground">
+				URL Normalization
+			</label>
+			<div class="grid grid-cols-2 gap-2">
+				<select
+					value={props.options.idn}
+					onChange={(e) =>
+						update({
+							idn: e.target.value as NormalizeOptions["idn"],
+						})
+					}
+					class="px-4 py-2 bg-background border border-input rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+				>
+					<option value="punycode">Hosts as Punycode (xn--)</option>
+					<option value="unicode">Hosts as Unicode</option>
+				</select>
+				<select
+					value={props.options.trailingSlash}
+					onChange={(e) =>
+						update({
+							trailingSlash: e.target
+								.value as NormalizeOptions["trailingSlash"],
+						})
+					}
+					class="px-4 py-2 bg-background border border-input rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+				>
+					<option value="keep">Keep trailing slashes</option>
+					<option value="add">Add trailing slashes</option>
+					<option value="remove">Remove trailing slashes</option>
+				</select>
+			</div>
+			<For each={CHECKBOXES}>
+				{({ key, label }) => (
+					<div class="flex items-center space-x-3">
+						<input
+							type="checkbox"
+							id={`normalize-${key}`}
+							checked={props.options[key]}
+							onChange={(e) => update({ [key]: e.target.checked })}
+							class="w-4 h-4 text-primary border-input rounded focus:ring-2 focus:ring-ring"
+						/>
+						<label
+							for={`normalize-${key}`}
+							class="text-sm text-foreground"
+						>
+							{label}
+						</label>
+					</div>
+				)}
+			</For>
+			<p class="text-xs text-muted-foreground">
+				Hosts are always lowercased and default ports (:80, :443)
+				removed.
+			</p>
+		</div>
+	);
+};
@@ -1,4 +1,11 @@
-import { Component, createSignal, onMount, Show } from "solid-js";
+import {
+	Component,
+	createSignal,
+	For,
+	Index,
+	onMount,
+	Show,
+} from "solid-js";
 import { getTheme, setTheme, applyTheme, type Theme } from "../utils/theme";
 import {
 	getDisplayMode,
@@ -8,6 +15,44 @@ import {
 	type DisplayMode,
 } from "../utils/displayMode";
 import { browser } from "../utils/browser";
+import { CustomRules } from "./CustomRules";
+import { Subscriptions } from "./Subscriptions";
+import { Shortcuts } from "./Shortcuts";
+import { PipelineSteps } from "./PipelineSteps";
+import { NormalizeSettings } from "./NormalizeSettings";
+import { UrlLab } from "./UrlLab";
+import { DomainPolicies } from "./DomainPolicies";
+import {
+	getCleanSettings,
+	setCleanSettings,
+	getCopyFormatSettings,
+	setCopyFormatSettings,
+	getDomainPolicies,
+	setDomainPolicies,
+} from "../utils/cleanSettings";
+import type { CleanMode } from "../logic/cleanCopyUrl";
+import type { TransformerConfig } from "../logic/pipeline";
+import {
+	DEFAULT_NORMALIZE_OPTIONS,
+	type NormalizeOptions,
+} from "../logic/normalizeUrl";
+import { formatMobileHosts, parseMobileHosts } from "../logic/deAmp";
+import {
+	DOMAIN_POLICIES_STORAGE_KEY,
+	type DomainPolicy,
+} from "../logic/domainPolicy";
+import {
+	BUILT_IN_COPY_FORMATS,
+	PLAIN_COPY_FORMAT,
+	type CopyFormat,
+} from "../logic/copyFormat";
+
+// One entry per line, blank lines are skipped
+const parseLines = (text: string) =>
+	text
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean);
 
 export const Options: Component = () => {
 	// Current saved values
@@ -20,15 +65,40 @@ export const Options: Component = () => {
 	const [displayMode, setDisplayModeInput] =
 		createSignal<DisplayMode>("popup");
 	const [notifications, setNotifications] = createSignal(true);
+	const [cleanMode, setCleanMode] = createSignal<CleanMode>("balanced");
+	const [keepFragment, setKeepFragment] = createSignal(false);
+	const [preferCanonical, setPreferCanonical] = createSignal(false);
+	const [transformers, setTransformers] = createSignal<TransformerConfig[]>(
+		[]
+	);
+	const [normalize, setNormalize] = createSignal<NormalizeOptions>(
+		DEFAULT_NORMALIZE_OPTIONS
+	);
+	const [mobileHosts, setMobileHosts] = createSignal("");
+	const [policies, setPolicies] = createSignal<DomainPolicy[]>([]);
+	const [autoClean, setAutoClean] = createSignal(false);
+	const [autoCleanAllowlist, setAutoCleanAllowlist] = createSignal("");
+	const [ampPublishers, setAmpPublishers] = createSignal("");
+	const [enabledFormats, setEnabledFormats] = createSignal<string[]>([]);
+	const [customFormats, setCustomFormats] = createSignal<CopyFormat[]>([]);
 
 	const [saved, setSaved] = createSignal(false);
 	const [sidebarSupported, setSidebarSupported] = createSignal(true);
 	const [browserName, setBrowserName] = createSignal("");
 
 	onMount(async () => {
+		// Exceptions added from a clean copy notification
+		browser.storage?.onChanged.addListener((changes, areaName) => {
+			if (areaName === "sync" && changes[DOMAIN_POLICIES_STORAGE_KEY]) {
+				setPolicies(changes[DOMAIN_POLICIES_STORAGE_KEY].newValue ?? []);
+			}
+		});
+
 		const currentTheme = await getTheme();
 		const currentDisplayMode = await getDisplayMode();
 		const result = await browser.storage?.sync.get(["notifications"]);
+		const cleanSettings = await getCleanSettings();
+		const copyFormatSettings = await getCopyFormatSettings();
 
 		// Set both saved and form values
 		setSavedTheme(currentTheme);
@@ -36,12 +106,54 @@ export const Options: Component = () => {
 		setSavedDisplayMode(currentDisplayMode);
 		setDisplayModeInput(currentDisplayMode);
 		setNotifications(result?.notifications ?? true);
+		setCleanMode(cleanSettings.mode);
+		setKeepFragment(cleanSettings.keepFragment);
+		setPreferCanonical(cleanSettings.preferCanonical);
+		setTransformers(cleanSettings.transformers);
+		setNormalize({
+			...DEFAULT_NORMALIZE_OPTIONS,
+			...cleanSettings.normalize,
+		});
+		setMobileHosts(formatMobileHosts(cleanSettings.mobileHosts));
+		setPolicies(await getDomainPolicies());
+		setAutoClean(cleanSettings.autoClean);
+		setAutoCleanAllowlist(cleanSettings.autoCleanAllowlist.join("\n"));
+		setAmpPublishers(cleanSettings.ampPublishers.join("\n"));
+		setEnabledFormats(copyFormatSettings.enabled);
+		setCustomFormats(copyFormatSettings.custom);
 
 		// Check browser support
 		setSidebarSupported(isSidebarSupported());
 		setBrowserName(browser.getBrowserName());
 	});
 
+	const toggleFormat = (id: string, enabled: boolean) => {
+		setEnabledFormats((ids) =>
+			enabled ? [...ids, id] : ids.filter((i) => i !== id)
+		);
+	};
+
+	const addCustomFormat = () => {
+		setCustomFormats((formats) => [
+			...formats,
+			{ id: `custom-${Date.now()}`, name: "", template: "{url}" },
+		]);
+	};
+
+	const updateCustomFormat = (id: string, patch: Partial<CopyFormat>) => {
+		setCustomFormats((formats) =>
+			formats.map((format) =>
+				format.id === id ? { ...format, ...patch } : format
+			)
+		);
+	};
+
+	const removeCustomFormat = (id: string) => {
+		setCustomFormats((formats) =>
+			formats.filter((format) => format.id !== id)
+		);
+	};
+
 	const saveSettings = async () => {
 		// Apply theme changes
 		if (theme() !== savedTheme()) {
@@ -60,6 +172,28 @@ export const Options: Component = () => {
 		// Save notifications
 		await browser.storage?.sync.set({ notifications: notifications() });
 
+		// Save URL cleaning settings
+		await setCleanSettings({
+			mode: cleanMode(),
+			keepFragment: keepFragment(),
+			preferCanonical: preferCanonical(),
+			transformers: transformers(),
+			normalize: normalize(),
+			mobileHosts: parseMobileHosts(mobileHosts()),
+			ampPublishers: parseLines(ampPublishers()),
+			autoClean: autoClean(),
+			autoCleanAllowlist: parseLines(autoCleanAllowlist()),
+		});
+		await setDomainPolicies(policies().filter((policy) => policy.host));
+
+		// Save copy formats (the context menu is rebuilt by the background)
+		await setCopyFormatSettings({
+			enabled: enabledFormats(),
+			custom: customFormats().filter(
+				(format) => format.name.trim() && format.template.trim()
+			),
+		});
+
 		setSaved(true);
 		setTimeout(() => setSaved(false), 2000);
 	};
@@ -122,6 +256,282 @@ export const Options: Component = () => {
 						</p>
 					</div>
 
+					<div class="space-y-2">
+						<label class="block text-sm font-medium text-foreground">
+							Clean Mode
+						</label>
+						<select
+							value={cleanMode()}
+							onChange={(e) =>
+								setCleanMode(e.target.value as CleanMode)
+							}
+							class="w-full px-4 py-2 bg-background border border-input rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+						>
+							<option value="balanced">
+								Balanced (remove tracking parameters only)
+							</option>
+							<option value="strict">
+								Strict (remove all query parameters)
+							</option>
+						</select>
+						<p class="text-xs text-muted-foreground">
+							Choose how "Clean Copy URL" cleans links
+						</p>
+					</div>
+
+					<div class="flex items-center space-x-3">
+						<input
+							type="checkbox"
+							id="keepFragment"
+							checked={keepFragment()}
+							onChange={(e) => setKeepFragment(e.target.checked)}
+							class="w-4 h-4 text-primary border-input rounded focus:ring-2 focus:ring-ring"
+						/>
+						<label
+							for="keepFragment"
+							class="text-sm font-medium text-foreground"
+						>
+							Keep URL fragment (#section)
+						</label>
+					</div>
+
+					<div class="space-y-2">
+						<div class="flex items-center space-x-3">
+							<input
+								type="checkbox"
+								id="preferCanonical"
+								checked={preferCanonical()}
+								onChange={(e) =>
+									setPreferCanonical(e.target.checked)
+								}
+								class="w-4 h-4 text-primary border-input rounded focus:ring-2 focus:ring-ring"
+							/>
+							<label
+								for="preferCanonical"
+								class="text-sm font-medium text-foreground"
+							>
+								Prefer the page's canonical URL
+							</label>
+						</div>
+						<p class="text-xs text-muted-foreground">
+							When cleaning the current page, use its{" "}
+							<code>rel="canonical"</code>, <code>og:url</code>{" "}
+							or JSON-LD URL if it is on the same site.
+						</p>
+					</div>
+
+					<PipelineSteps
+						config={transformers()}
+						onChange={setTransformers}
+					/>
+
+					<NormalizeSettings
+						options={normalize()}
+						onChange={setNormalize}
+					/>
+
+					<div class="space-y-2">
+						<label class="block text-sm font-medium text-foreground">
+							Mobile Sites
+						</label>
+						<textarea
+							rows={4}
+							placeholder="m.example.com = example.com"
+							value={mobileHosts()}
+							onInput={(e) => setMobileHosts(e.target.value)}
+							class="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+						/>
+						<p class="text-xs text-muted-foreground">
+							One "mobile = desktop" host per line, used by the
+							De-AMP step. Subdomains are kept, so
+							en.m.wikipedia.org becomes en.wikipedia.org.
+						</p>
+					</div>
+
+					<div class="space-y-2">
+						<label class="block text-sm font-medium text-foreground">
+							AMP Publishers
+						</label>
+						<textarea
+							rows={3}
+							placeholder="*.example.com"
+							value={ampPublishers()}
+							onInput={(e) => setAmpPublishers(e.target.value)}
+							class="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+						/>
+						<p class="text-xs text-muted-foreground">
+							One host pattern per line. On these sites the
+							De-AMP step removes "/amp", ".amp" and "?amp"
+							markers; links from AMP caches are always
+							resolved.
+						</p>
+					</div>
+
+					<div class="space-y-2">
+						<div class="flex items-center space-x-3">
+							<input
+								type="checkbox"
+								id="autoClean"
+								checked={autoClean()}
+								onChange={(e) => setAutoClean(e.target.checked)}
+								class="w-4 h-4 text-primary border-input rounded focus:ring-2 focus:ring-ring"
+							/>
+							<label
+								for="autoClean"
+								class="text-sm font-medium text-foreground"
+							>
+								Auto-clean tracking parameters on navigation
+							</label>
+						</div>
+						<Show when={autoClean()}>
+							<textarea
+								rows={3}
+								placeholder="Domains to never auto-clean, one per line"
+								value={autoCleanAllowlist()}
+								onInput={(e) =>
+									setAutoCleanAllowlist(e.target.value)
+								}
+								class="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+							/>
+						</Show>
+						<p class="text-xs text-muted-foreground">
+							Removes known tracking parameters before pages
+							load, without a right-click.
+						</p>
+					</div>
+
+					<div class="space-y-2">
+						<label class="block text-sm font-medium text-foreground">
+							Copy Formats
+						</label>
+						<For
+							each={BUILT_IN_COPY_FORMATS.filter(
+								(format) => format.id !== PLAIN_COPY_FORMAT.id
+							)}
+						>
+							{(format) => (
+								<div class="flex items-center space-x-3">
+									<input
+										type="checkbox"
+										id={`format-${format.id}`}
+										checked={enabledFormats().includes(
+											format.id
+										)}
+										onChange={(e) =>
+											toggleFormat(
+												format.id,
+												e.target.checked
+											)
+										}
+										class="w-4 h-4 text-primary border-input rounded focus:ring-2 focus:ring-ring"
+									/>
+									<label
+										for={`format-${format.id}`}
+										class="text-sm text-foreground"
+									>
+										{format.name}{" "}
+										<code class="text-xs text-muted-foreground">
+											{format.template}
+										</code>
+									</label>
+								</div>
+							)}
+						</For>
+						<p class="text-xs text-muted-foreground">
+							Each enabled format gets its own "Clean Copy as
+							..." context menu entry.
+						</p>
+					</div>
+
+					<div class="space-y-2">
+						<label class="block text-sm font-medium text-foreground">
+							Custom Templates
+						</label>
+						<Index each={customFormats()}>
+							{(format) => (
+								<div class="p-3 border border-border rounded-lg space-y-2">
+									<div class="flex items-center space-x-2">
+										<input
+											type="text"
+											placeholder="Name"
+											value={format().name}
+											onInput={(e) =>
+												updateCustomFormat(format().id, {
+													name: e.target.value,
+												})
+											}
+											class="flex-1 px-3 py-1 bg-background border border-input rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+										/>
+										<button
+											onClick={() =>
+												removeCustomFormat(format().id)
+											}
+											class="px-3 py-1 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+										>
+											Remove
+										</button>
+									</div>
+									<input
+										type="text"
+										placeholder="Text template, e.g. {title} - {url}"
+										value={format().template}
+										onInput={(e) =>
+											updateCustomFormat(format().id, {
+												template: e.target.value,
+											})
+										}
+										class="w-full px-3 py-1 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+									/>
+									<input
+										type="text"
+										placeholder="Optional HTML template for rich text"
+										value={format().htmlTemplate ?? ""}
+										onInput={(e) =>
+											updateCustomFormat(format().id, {
+												htmlTemplate:
+													e.target.value || undefined,
+											})
+										}
+										class="w-full px-3 py-1 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+									/>
+								</div>
+							)}
+						</Index>
+						<button
+							onClick={addCustomFormat}
+							class="px-4 py-2 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+						>
+							Add Template
+						</button>
+						<p class="text-xs text-muted-foreground">
+							Placeholders: {"{url}"}, {"{title}"}, {"{host}"},{" "}
+							{"{selection}"}, {"{date}"}
+						</p>
+					</div>
+
+					<UrlLab
+						options={{
+							mode: cleanMode(),
+							keepFragment: keepFragment(),
+							transformers: transformers(),
+							normalize: normalize(),
+							mobileHosts: parseMobileHosts(mobileHosts()),
+							ampPublishers: parseLines(ampPublishers()),
+							policies: policies(),
+						}}
+					/>
+
+					<DomainPolicies
+						policies={policies()}
+						onChange={setPolicies}
+					/>
+
+					<CustomRules />
+
+					<Subscriptions />
+
+					<Shortcuts />
+
 					<div class="flex items-center space-x-3">
 						<input
 							type="checkbox"
@@ -0,0 +1,81 @@
+import { Component, For } from "solid-js";
+import {
+	getPipelineConfig,
+	getTransformers,
+	type TransformerConfig,
+} from "../logic/pipeline";
+
+export const PipelineSteps: Component<{
+	config: TransformerConfig[];
+	onChange: (config: TransformerConfig[]) => void;
+}> = (props) => {
+	const steps = () => getPipelineConfig(props.config);
+	const transformer = (id: string) =>
+		getTransformers().find((transformer) => transformer.id === id);
+
+	const toggle = (id: string, enabled: boolean) => {
+		props.onChange(
+			steps().map((step) => (step.id === id ? { ...step, enabled } : step))
+		);
+	};
+
+	const move = (index: number, offset: number) => {
+		const updated = [...steps()];
+		const [step] = updated.splice(index, 1);
+		updated.splice(index + offset, 0, step);
+		props.onChange(updated);
+	};
+
+	return (
+		<div class="space-y-2">
+			<label class="block text-sm font-medium text-foreground">
+				Cleaning Steps
+			</label>
+			<ul class="space-y-1">
+				<For each={steps()}>
+					{(step, index) => (
+						<li class="flex items-center justify-between px-3 py-1 border border-border rounded-md">
+							<div class="flex items-center space-x-3">
+								<input
+									type="checkbox"
+									id={`step-${step.id}`}
+									checked={step.enabled}
+									onChange={(e) =>
+										toggle(step.id, e.target.checked)
+									}
+									class="w-4 h-4 text-primary border-input rounded focus:ring-2 focus:ring-ring"
+								/>
+								<label
+									for={`step-${step.id}`}
+									class="text-sm text-foreground"
+									title={transformer(step.id)?.description}
+								>
+									{transformer(step.id)?.name ?? step.id}
+								</label>
+							</div>
+							<div class="flex space-x-1">
+								<button
+									onClick={() => move(index(), -1)}
+									disabled={index() === 0}
+									class="px-2 text-xs text-muted-foreground hover:text-foreground disabled:opacity-30"
+								>
+									↑
+								</button>
+								<button
+									onClick={() => move(index(), 1)}
+									disabled={index() === steps().length - 1}
+									class="px-2 text-xs text-muted-foreground hover:text-foreground disabled:opacity-30"
+								>
+									↓
+								</button>
+							</div>
+						</li>
+					)}
+				</For>
+			</ul>
+			<p class="text-xs text-muted-foreground">
+				URLs pass through the enabled steps from top to bottom.
+			</p>
+		</div>
+	);
+};
@@ -0,0 +1,57 @@
+import { Component, createSignal, For, onMount, Show } from "solid-js";
+import { browser } from "../utils/browser";
+import {
+	getCommandBindings,
+	getShortcutSettingsUrl,
+	type CommandBinding,
+} from "../utils/commands";
+
+export const Shortcuts: Component = () => {
+	const [bindings, setBindings] = createSignal<CommandBinding[]>([]);
+
+	onMount(async () => {
+		setBindings(await getCommandBindings());
+	});
+
+	// chrome:// pages cannot be opened from a regular link
+	const openShortcutSettings = () => {
+		browser.tabs?.create({ url: getShortcutSettingsUrl() });
+	};
+
+	return (
+		<div class="space-y-2">
+			<label class="block text-sm font-medium text-foreground">
+				Keyboard Shortcuts
+			</label>
+			<Show
+				when={bindings().length > 0}
+				fallback={
+					<p class="text-xs text-muted-foreground">
+						Keyboard shortcuts are not available in this browser.
+					</p>
+				}
+			>
+				<ul class="space-y-1">
+					<For each={bindings()}>
+						{(binding) => (
+							<li class="flex items-center justify-between px-3 py-1 border border-border rounded-md">
+								<span class="text-sm text-foreground">
+									{binding.description}
+								</span>
+								<kbd class="px-2 py-0.5 text-xs font-mono bg-secondary text-secondary-foreground rounded">
+									{binding.shortcut || "Not set"}
+								</kbd>
+							</li>
+						)}
+					</For>
+				</ul>
+			</Show>
+			<button
+				onClick={openShortcutSettings}
+				class="px-4 py-2 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+			>
+				Change Shortcuts
+			</button>
+		</div>
+	);
+};
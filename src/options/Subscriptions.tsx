@@ -0,0 +1,165 @@
+import { Component, createSignal, For, onMount, Show } from "solid-js";
+import { browser } from "../utils/browser";
+import {
+	getSubscriptionCache,
+	getSubscriptions,
+	setSubscriptions,
+	updateSubscriptions,
+	SUBSCRIPTION_CACHE_STORAGE_KEY,
+	type RuleSubscription,
+	type SubscriptionCache,
+} from "../utils/subscriptions";
+
+const formatTime = (time?: number) =>
+	time ? new Date(time).toLocaleString() : "never";
+
+export const Subscriptions: Component = () => {
+	const [subscriptions, setSubscriptionList] = createSignal<
+		RuleSubscription[]
+	>([]);
+	const [cache, setCache] = createSignal<Record<string, SubscriptionCache>>(
+		{}
+	);
+	const [url, setUrl] = createSignal("");
+	const [integrity, setIntegrity] = createSignal("");
+	const [updating, setUpdating] = createSignal(false);
+
+	onMount(async () => {
+		// Updates run in the background worker
+		browser.storage?.onChanged.addListener((changes, areaName) => {
+			if (
+				areaName === "local" &&
+				changes[SUBSCRIPTION_CACHE_STORAGE_KEY]
+			) {
+				setCache(
+					changes[SUBSCRIPTION_CACHE_STORAGE_KEY].newValue ?? {}
+				);
+			}
+		});
+
+		setSubscriptionList(await getSubscriptions());
+		setCache(await getSubscriptionCache());
+	});
+
+	const without = (value: string) =>
+		subscriptions().filter((subscription) => subscription.url !== value);
+
+	const save = async (updated: RuleSubscription[]) => {
+		await setSubscriptions(updated);
+		setSubscriptionList(updated);
+	};
+
+	const addSubscription = async () => {
+		const value = url().trim();
+		if (!URL.canParse(value)) return;
+
+		const pin = integrity().trim();
+		await save([
+			...without(value),
+			pin ? { url: value, integrity: pin } : { url: value },
+		]);
+		setUrl("");
+		setIntegrity("");
+	};
+
+	const removeSubscription = (value: string) => save(without(value));
+
+	const updateNow = async () => {
+		setUpdating(true);
+		try {
+			setCache(await updateSubscriptions());
+		} finally {
+			setUpdating(false);
+		}
+	};
+
+	const status = (value: string) => {
+		const entry = cache()[value];
+		if (!entry) return "Not fetched yet";
+		const count = Object.keys(entry.providers).length;
+		const providers = `${count} ${count === 1 ? "provider" : "providers"}`;
+		return `${providers}, updated ${formatTime(
+			entry.updatedAt
+		)}, checked ${formatTime(entry.checkedAt)}`;
+	};
+
+	return (
+		<div class="space-y-2">
+			<label class="block text-sm font-medium text-foreground">
+				Rule Subscriptions
+			</label>
+			<p class="text-xs text-muted-foreground">
+				Rule lists in the ClearURLs format, updated every few hours.
+				Custom rules take precedence over subscriptions, which take
+				precedence over the built-in rules.
+			</p>
+
+			<div class="grid grid-cols-2 gap-2">
+				<input
+					type="url"
+					placeholder="https://example.com/rules.json"
+					value={url()}
+					onInput={(e) => setUrl(e.target.value)}
+					class="px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+				/>
+				<input
+					type="text"
+					placeholder="Integrity (optional), sha256-..."
+					value={integrity()}
+					onInput={(e) => setIntegrity(e.target.value)}
+					class="px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+				/>
+			</div>
+			<div class="flex items-center space-x-2">
+				<button
+					onClick={addSubscription}
+					disabled={!URL.canParse(url().trim())}
+					class="px-4 py-2 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors disabled:opacity-50"
+				>
+					Subscribe
+				</button>
+				<button
+					onClick={updateNow}
+					disabled={updating() || subscriptions().length === 0}
+					class="px-4 py-2 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors disabled:opacity-50"
+				>
+					{updating() ? "Updating..." : "Update Now"}
+				</button>
+			</div>
+
+			<Show when={subscriptions().length > 0}>
+				<ul class="space-y-1">
+					<For each={subscriptions()}>
+						{(subscription) => (
+							<li class="px-3 py-1 border border-border rounded-md space-y-1">
+								<div class="flex items-center justify-between">
+									<span class="text-sm font-mono text-foreground break-all">
+										{subscription.url}
+									</span>
+									<button
+										onClick={() =>
+											removeSubscription(subscription.url)
+										}
+										class="text-xs text-muted-foreground hover:text-foreground"
+									>
+										Remove
+									</button>
+								</div>
+								<p class="text-xs text-muted-foreground">
+									{status(subscription.url)}
+								</p>
+								<Show when={cache()[subscription.url]?.error}>
+									{(error) => (
+										<p class="text-xs text-amber-600 dark:text-amber-400">
+											{error()}
+										</p>
+									)}
+								</Show>
+							</li>
+						)}
+					</For>
+				</ul>
+			</Show>
+		</div>
+	);
+};
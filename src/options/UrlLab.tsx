@@ -0,0 +1,286 @@
+import {
+	Component,
+	createMemo,
+	createSignal,
+	For,
+	onMount,
+	Show,
+} from "solid-js";
+import { browser } from "../utils/browser";
+import {
+	cleanUrl,
+	describeCleanResult,
+	type CleanOptions,
+} from "../logic/cleanCopyUrl";
+import {
+	mergeProviders,
+	validateProvider,
+	type ClearUrlsProvider,
+	type ClearUrlsProviders,
+} from "../logic/clearUrls";
+import { diffUrl, explainParams } from "../logic/urlLab";
+import {
+	CUSTOM_RULES_STORAGE_KEY,
+	getCustomProviders,
+	setCustomProviders,
+} from "../utils/customRules";
+import {
+	getSubscriptionProviders,
+	SUBSCRIPTION_CACHE_STORAGE_KEY,
+} from "../utils/subscriptions";
+
+const DIFF_CLASSES = {
+	same: "text-foreground",
+	removed: "bg-red-500/15 text-red-600 dark:text-red-400 line-through",
+	added: "bg-green-500/15 text-green-600 dark:text-green-400",
+};
+
+const UrlDiff: Component<{ before: string; after: string }> = (props) => (
+	<code class="block text-xs break-all">
+		<For each={diffUrl(props.before, props.after)}>
+			{(segment) => (
+				<span class={DIFF_CLASSES[segment.kind]}>{segment.text}</span>
+			)}
+		</For>
+	</code>
+);
+
+/**
+ * Playground that shows every cleaning step for a pasted URL, using the
+ * unsaved settings of the form and an optional draft rule
+ */
+export const UrlLab: Component<{ options: CleanOptions }> = (props) => {
+	const [url, setUrl] = createSignal("");
+	const [providers, setProviders] = createSignal<ClearUrlsProviders>({});
+	const [subscribed, setSubscribed] = createSignal<ClearUrlsProviders>({});
+	const [draftName, setDraftName] = createSignal("");
+	const [draftPattern, setDraftPattern] = createSignal("");
+	const [draftParams, setDraftParams] = createSignal("");
+	const [status, setStatus] = createSignal("");
+
+	onMount(async () => {
+		// Rules imported or removed in the Custom Rules section and
+		// updated rule lists
+		browser.storage?.onChanged.addListener(async (changes, areaName) => {
+			if (areaName === "local" && changes[CUSTOM_RULES_STORAGE_KEY]) {
+				setProviders(changes[CUSTOM_RULES_STORAGE_KEY].newValue ?? {});
+			}
+			if (
+				areaName === "local" &&
+				changes[SUBSCRIPTION_CACHE_STORAGE_KEY]
+			) {
+				setSubscribed(await getSubscriptionProviders());
+			}
+		});
+
+		setProviders(await getCustomProviders());
+		setSubscribed(await getSubscriptionProviders());
+	});
+
+	const draft = createMemo((): ClearUrlsProvider | null => {
+		if (!draftPattern()) return null;
+		return {
+			urlPattern: draftPattern(),
+			rules: draftParams()
+				.split(",")
+				.map((param) => param.trim())
+				.filter(Boolean),
+		};
+	});
+	const draftErrors = () => {
+		const provider = draft();
+		return provider ? validateProvider(provider) : [];
+	};
+
+	const options = createMemo((): CleanOptions => {
+		const provider = draft();
+		const active =
+			provider && draftErrors().length === 0
+				? { ...providers(), [draftName() || "Draft"]: provider }
+				: providers();
+		return {
+			...props.options,
+			providers: mergeProviders(active, subscribed()),
+		};
+	});
+	const result = createMemo(() =>
+		url().trim() ? cleanUrl(url().trim(), options()) : null
+	);
+	const params = () => {
+		const current = result();
+		return current ? explainParams(current, options()) : [];
+	};
+	const preview = () => {
+		const current = result();
+		if (!current || !draft() || draftErrors().length > 0) return null;
+		return cleanUrl(current.input, {
+			...props.options,
+			providers: mergeProviders(providers(), subscribed()),
+		});
+	};
+
+	const saveDraft = async () => {
+		const provider = draft();
+		const name = draftName().trim();
+		if (!provider || !name || draftErrors().length > 0) return;
+
+		const updated = { ...providers(), [name]: provider };
+		await setCustomProviders(updated);
+		setProviders(updated);
+		setDraftName("");
+		setDraftPattern("");
+		setDraftParams("");
+		setStatus(`Saved rule "${name}".`);
+		setTimeout(() => setStatus(""), 2000);
+	};
+
+	return (
+		<div class="space-y-2">
+			<label class="block text-sm font-medium text-foreground">
+				URL Lab
+			</label>
+			<input
+				type="url"
+				placeholder="Paste a URL to see how it is cleaned"
+				value={url()}
+				onInput={(e) => setUrl(e.target.value)}
+				class="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+			/>
+
+			<Show when={result()}>
+				{(current) => (
+					<div class="space-y-3 p-3 border border-border rounded-md">
+						<ol class="space-y-1">
+							<For each={current().trace}>
+								{(step) => (
+									<li class="text-xs">
+										<span class="font-medium text-foreground">
+											{step.name}
+										</span>
+										<Show
+											when={step.before !== step.after}
+											fallback={
+												<span class="text-muted-foreground">
+													{" "}
+													(no change)
+												</span>
+											}
+										>
+											<UrlDiff
+												before={step.before}
+												after={step.after}
+											/>
+										</Show>
+									</li>
+								)}
+							</For>
+						</ol>
+
+						<Show when={params().length > 0}>
+							<table class="w-full text-xs">
+								<tbody>
+									<For each={params()}>
+										{(param) => (
+											<tr>
+												<td class="pr-2 font-mono text-foreground">
+													{param.name}
+												</td>
+												<td class="text-muted-foreground">
+													{param.step
+														? `Removed by ${param.step}${
+																param.rule
+																	? ` (${param.rule})`
+																	: ""
+															}`
+														: "Kept"}
+												</td>
+											</tr>
+										)}
+									</For>
+								</tbody>
+							</table>
+						</Show>
+
+						<div class="space-y-1">
+							<p class="text-xs font-medium text-foreground">
+								Result: {describeCleanResult(current())}
+							</p>
+							<UrlDiff
+								before={current().input}
+								after={current().output}
+							/>
+							<For each={current().warnings}>
+								{(warning) => (
+									<p class="text-xs text-amber-600 dark:text-amber-400">
+										{warning}
+									</p>
+								)}
+							</For>
+						</div>
+					</div>
+				)}
+			</Show>
+
+			<div class="space-y-2">
+				<p class="text-xs text-muted-foreground">
+					Draft a rule to see its effect before saving it as a
+					custom rule.
+				</p>
+				<div class="grid grid-cols-3 gap-2">
+					<input
+						type="text"
+						placeholder="Name"
+						value={draftName()}
+						onInput={(e) => setDraftName(e.target.value)}
+						class="px-3 py-2 bg-background border border-input rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+					/>
+					<input
+						type="text"
+						placeholder="URL pattern (regex)"
+						value={draftPattern()}
+						onInput={(e) => setDraftPattern(e.target.value)}
+						class="px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+					/>
+					<input
+						type="text"
+						placeholder="Parameters, e.g. ref, src_.*"
+						value={draftParams()}
+						onInput={(e) => setDraftParams(e.target.value)}
+						class="px-3 py-2 bg-background border border-input rounded-lg text-sm font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+					/>
+				</div>
+				<For each={draftErrors()}>
+					{(error) => (
+						<p class="text-xs text-amber-600 dark:text-amber-400">
+							{error}
+						</p>
+					)}
+				</For>
+				<Show when={preview()}>
+					{(before) => (
+						<p class="text-xs text-muted-foreground">
+							Without the draft:{" "}
+							<code class="break-all">{before().output}</code>
+						</p>
+					)}
+				</Show>
+				<div class="flex items-center space-x-2">
+					<button
+						onClick={saveDraft}
+						disabled={
+							!draft() ||
+							!draftName().trim() ||
+							draftErrors().length > 0
+						}
+						class="px-4 py-2 text-sm bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors disabled:opacity-50"
+					>
+						Save Rule
+					</button>
+					<Show when={status()}>
+						<span class="text-xs text-foreground">{status()}</span>
+					</Show>
+				</div>
+			</div>
+		</div>
+	);
+};
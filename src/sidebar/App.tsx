@@ -1,6 +1,7 @@
 import { Component, createSignal, onMount } from "solid-js";
 import { getTheme, type Theme } from "../utils/theme";
 import { browser } from "../utils/browser";
+import { History } from "./History";
 
 export const App: Component = () => {
 	const [count, setCount] = createSignal(0);
@@ -54,6 +55,8 @@ export const App: Component = () => {
 						content and functionality.
 					</p>
 				</div>
+
+				<History />
 			</div>
 		</div>
 	);
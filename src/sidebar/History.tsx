@@ -0,0 +1,160 @@
+import {
+	Component,
+	createMemo,
+	createSignal,
+	For,
+	onMount,
+	Show,
+} from "solid-js";
+import { browser } from "../utils/browser";
+import {
+	clearHistory,
+	exportHistory,
+	getHistory,
+	removeHistoryEntry,
+	searchHistory,
+	HISTORY_STORAGE_KEY,
+	type HistoryEntry,
+	type HistoryExportFormat,
+} from "../utils/history";
+
+export const History: Component = () => {
+	const [entries, setEntries] = createSignal<HistoryEntry[]>([]);
+	const [query, setQuery] = createSignal("");
+	const [copiedId, setCopiedId] = createSignal<string | null>(null);
+
+	const filteredEntries = createMemo(() =>
+		searchHistory(entries(), query())
+	);
+
+	onMount(async () => {
+		// Keep the list in sync with copies made from the context menu
+		browser.storage?.onChanged.addListener((changes, areaName) => {
+			if (areaName === "local" && changes[HISTORY_STORAGE_KEY]) {
+				setEntries(changes[HISTORY_STORAGE_KEY].newValue ?? []);
+			}
+		});
+
+		setEntries(await getHistory());
+	});
+
+	const recopy = async (entry: HistoryEntry) => {
+		try {
+			await navigator.clipboard.writeText(entry.cleanedUrl);
+			setCopiedId(entry.id);
+			setTimeout(() => setCopiedId(null), 1500);
+		} catch (error) {
+			console.error("[History] Failed to copy URL:", error);
+		}
+	};
+
+	const download = (format: HistoryExportFormat) => {
+		const content = exportHistory(filteredEntries(), format);
+		const blob = new Blob([content], {
+			type: format === "json" ? "application/json" : "text/csv",
+		});
+		const url = URL.createObjectURL(blob);
+		const anchor = document.createElement("a");
+		anchor.href = url;
+		anchor.download = `clean-copy-history.${format}`;
+		anchor.click();
+		URL.revokeObjectURL(url);
+	};
+
+	return (
+		<div class="flex flex-col space-y-3">
+			<div class="flex items-center justify-between">
+				<h2 class="text-xl font-semibold text-foreground">History</h2>
+				<div class="flex space-x-2">
+					<button
+						onClick={() => download("json")}
+						disabled={filteredEntries().length === 0}
+						class="px-2 py-1 text-xs bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors disabled:opacity-50"
+					>
+						JSON
+					</button>
+					<button
+						onClick={() => download("csv")}
+						disabled={filteredEntries().length === 0}
+						class="px-2 py-1 text-xs bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors disabled:opacity-50"
+					>
+						CSV
+					</button>
+					<button
+						onClick={() => clearHistory()}
+						disabled={entries().length === 0}
+						class="px-2 py-1 text-xs bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors disabled:opacity-50"
+					>
+						Clear all
+					</button>
+				</div>
+			</div>
+
+			<input
+				type="search"
+				placeholder="Search history..."
+				value={query()}
+				onInput={(e) => setQuery(e.target.value)}
+				class="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+			/>
+
+			<Show
+				when={filteredEntries().length > 0}
+				fallback={
+					<p class="text-sm text-muted-foreground">
+						{entries().length === 0
+							? "No clean copies yet."
+							: "No entries match your search."}
+					</p>
+				}
+			>
+				<ul class="flex flex-col space-y-2">
+					<For each={filteredEntries()}>
+						{(entry) => (
+							<li class="p-3 bg-card border border-border rounded-lg space-y-1">
+								<p class="text-sm font-medium text-foreground truncate">
+									{entry.title || entry.cleanedUrl}
+								</p>
+								<p class="text-xs font-mono text-foreground break-all">
+									{entry.cleanedUrl}
+								</p>
+								<p class="text-xs text-muted-foreground break-all line-through">
+									{entry.originalUrl}
+								</p>
+								<div class="flex items-center justify-between pt-1">
+									<span class="text-xs text-muted-foreground">
+										{new Date(
+											entry.timestamp
+										).toLocaleString()}
+										<Show when={entry.rules.length > 0}>
+											{" · "}
+											{entry.rules.join(", ")}
+										</Show>
+									</span>
+									<div class="flex space-x-2">
+										<button
+											onClick={() => recopy(entry)}
+											class="px-2 py-1 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+										>
+											{copiedId() === entry.id
+												? "✓ Copied"
+												: "Copy"}
+										</button>
+										<button
+											onClick={() =>
+												removeHistoryEntry(entry.id)
+											}
+											class="px-2 py-1 text-xs bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors"
+										>
+											Delete
+										</button>
+									</div>
+								</div>
+							</li>
+						)}
+					</For>
+				</ul>
+			</Show>
+		</div>
+	);
+};
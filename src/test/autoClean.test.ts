@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	applyAutoClean,
+	buildAutoCleanRules,
+	AUTO_CLEAN_STORAGE_KEYS,
+} from "../utils/autoClean";
+import * as cleanSettings from "../utils/cleanSettings";
+import type { DomainRule } from "../logic/domainRules";
+
+const youtubeRule: DomainRule = {
+	name: "YouTube",
+	hosts: ["*.youtube.com", "youtu.be"],
+	keepParams: ["v"],
+	dropParams: ["si", "feature", "embeds_referring_*"],
+};
+
+describe("buildAutoCleanRules", () => {
+	it("creates a global rule removing tracking parameters on navigation", () => {
+		const [globalRule] = buildAutoCleanRules([]);
+
+		expect(globalRule.action).toEqual({
+			type: "redirect",
+			redirect: {
+				transform: {
+					queryTransform: {
+						removeParams: expect.arrayContaining([
+							"utm_source",
+							"fbclid",
+							"gclid",
+							"mc_eid",
+						]),
+					},
+				},
+			},
+		});
+		expect(globalRule.condition.resourceTypes).toEqual(["main_frame"]);
+		expect(globalRule.priority).toBe(1);
+	});
+
+	it("creates higher priority rules for domain rules", () => {
+		const rules = buildAutoCleanRules([youtubeRule]);
+
+		expect(rules).toHaveLength(2);
+		expect(rules[1].priority).toBe(2);
+		expect(rules[1].condition.requestDomains).toEqual([
+			"youtube.com",
+			"youtu.be",
+		]);
+
+		const removeParams =
+			rules[1].action.redirect?.transform?.queryTransform?.removeParams;
+		expect(removeParams).toEqual(
+			expect.arrayContaining(["si", "feature", "utm_source"])
+		);
+		// Prefix patterns cannot be expressed in removeParams
+		expect(removeParams).not.toContain("embeds_referring_*");
+	});
+
+	it("uses a regex filter for wildcard suffix hosts", () => {
+		const rules = buildAutoCleanRules([
+			{ name: "Amazon", hosts: ["*.amazon.*"], dropParams: ["ref"] },
+		]);
+
+		const filter = new RegExp(rules[1].condition.regexFilter ?? "");
+		expect(filter.test("https://www.amazon.co.uk/dp/B000000000")).toBe(
+			true
+		);
+		expect(filter.test("https://amazon.de/dp/B000000000")).toBe(true);
+		expect(filter.test("https://amazon.evil.com/dp/B000000000")).toBe(
+			false
+		);
+	});
+
+	it("skips domain rules without exact drop parameters", () => {
+		const rules = buildAutoCleanRules([
+			{ name: "Keep only", hosts: ["example.com"], keepParams: ["q"] },
+		]);
+		expect(rules).toHaveLength(1);
+	});
+
+	it("excludes allowlisted domains from every rule", () => {
+		const rules = buildAutoCleanRules([youtubeRule], ["intranet.local"]);
+		for (const rule of rules) {
+			expect(rule.condition.excludedRequestDomains).toEqual([
+				"intranet.local",
+			]);
+		}
+	});
+
+	it("cleans up allowlist entries Chrome would reject", () => {
+		const [rule] = buildAutoCleanRules(
+			[],
+			[
+				"Example.com",
+				"https://news.example.org/path?q=1",
+				"bücher.example",
+				"*.intranet.local",
+				"not a domain",
+				"",
+			],
+			[{ host: "Wiki.Example.com", action: "skip-clean" }]
+		);
+		expect(rule.condition.excludedRequestDomains).toEqual([
+			"example.com",
+			"news.example.org",
+			"xn--bcher-kva.example",
+			"intranet.local",
+			"wiki.example.com",
+		]);
+	});
+
+	it("adds rules for the plain parameter names of providers", () => {
+		const rules = buildAutoCleanRules([], [], [], {
+			shop: {
+				urlPattern: "^https?://shop\\.example\\.com",
+				rules: ["campaign", "trk_[a-z]+"],
+			},
+			excepted: {
+				urlPattern: "^https?://other\\.example\\.com",
+				rules: ["campaign"],
+				exceptions: ["/login"],
+			},
+			regexOnly: {
+				urlPattern: "^https?://regex\\.example\\.com",
+				rules: ["ref_.*"],
+			},
+		});
+
+		expect(rules).toHaveLength(2);
+		expect(rules[1].condition.regexFilter).toBe(
+			"^https?://shop\\.example\\.com"
+		);
+		const removeParams =
+			rules[1].action.redirect?.transform?.queryTransform?.removeParams;
+		expect(removeParams).toContain("campaign");
+		expect(removeParams).toContain("utm_source");
+		expect(removeParams).not.toContain("trk_[a-z]+");
+	});
+
+	it("leaves the hosts of never clean policies alone", () => {
+		const rules = buildAutoCleanRules(
+			[youtubeRule],
+			["intranet.local"],
+			[
+				{ host: "*.wiki.example.com", action: "skip-clean" },
+				{ host: "shop.example.*", action: "skip-clean" },
+				{ host: "news.example.org", action: "strict" },
+			]
+		);
+		const redirects = rules.filter(
+			(rule) => rule.action.type === "redirect"
+		);
+		for (const rule of redirects) {
+			expect(rule.condition.excludedRequestDomains).toEqual([
+				"intranet.local",
+				"wiki.example.com",
+			]);
+		}
+
+		const allow = rules.find((rule) => rule.action.type === "allow");
+		expect(allow?.priority).toBeGreaterThan(2);
+		expect(
+			new RegExp(allow?.condition.regexFilter ?? "").test(
+				"https://shop.example.de/cart?session=1"
+			)
+		).toBe(true);
+	});
+
+	it("regenerates the rules when policies change", () => {
+		expect(AUTO_CLEAN_STORAGE_KEYS).toEqual(
+			expect.arrayContaining([
+				"cleanSettings",
+				"domainPolicies",
+				"customProviders",
+				"ruleSubscriptionCache",
+			])
+		);
+	});
+
+	it("uses unique rule ids", () => {
+		const rules = buildAutoCleanRules();
+		const ids = rules.map((rule) => rule.id);
+		expect(new Set(ids).size).toBe(ids.length);
+	});
+});
+
+describe("applyAutoClean", () => {
+	const mockDnr = {
+		getDynamicRules: vi.fn(),
+		updateDynamicRules: vi.fn(),
+		isRegexSupported: vi.fn(),
+	};
+	let originalDnr: typeof chrome.declarativeNetRequest;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		originalDnr = chrome.declarativeNetRequest;
+		Object.assign(chrome, { declarativeNetRequest: mockDnr });
+		mockDnr.isRegexSupported.mockResolvedValue({ isSupported: true });
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		Object.assign(chrome, { declarativeNetRequest: originalDnr });
+		vi.restoreAllMocks();
+	});
+
+	it("replaces existing auto-clean rules when enabled", async () => {
+		vi.spyOn(cleanSettings, "getCleanSettings").mockResolvedValue({
+			...cleanSettings.DEFAULT_CLEAN_SETTINGS,
+			autoClean: true,
+		});
+		mockDnr.getDynamicRules.mockResolvedValue([{ id: 1000 }, { id: 5 }]);
+
+		await applyAutoClean();
+
+		const update = mockDnr.updateDynamicRules.mock.calls[0][0];
+		expect(update.removeRuleIds).toEqual([1000]);
+		expect(update.addRules.length).toBeGreaterThan(1);
+	});
+
+	it("drops rules with patterns Chrome does not support", async () => {
+		vi.spyOn(cleanSettings, "getCleanSettings").mockResolvedValue({
+			...cleanSettings.DEFAULT_CLEAN_SETTINGS,
+			autoClean: true,
+		});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		mockDnr.getDynamicRules.mockResolvedValue([]);
+		mockDnr.isRegexSupported.mockResolvedValue({ isSupported: false });
+
+		await applyAutoClean();
+
+		const update = mockDnr.updateDynamicRules.mock.calls[0][0];
+		expect(
+			update.addRules.some(
+				(rule: chrome.declarativeNetRequest.Rule) =>
+					rule.condition.regexFilter
+			)
+		).toBe(false);
+	});
+
+	it("logs rules Chrome rejects instead of failing", async () => {
+		vi.spyOn(cleanSettings, "getCleanSettings").mockResolvedValue({
+			...cleanSettings.DEFAULT_CLEAN_SETTINGS,
+			autoClean: true,
+		});
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		mockDnr.getDynamicRules.mockResolvedValue([]);
+		mockDnr.updateDynamicRules.mockRejectedValueOnce(new Error("invalid"));
+
+		await expect(applyAutoClean()).resolves.toBeUndefined();
+		expect(error).toHaveBeenCalledWith(
+			"[AutoClean] Failed to apply rules:",
+			expect.any(Error)
+		);
+	});
+
+	it("removes all auto-clean rules when disabled", async () => {
+		vi.spyOn(cleanSettings, "getCleanSettings").mockResolvedValue(
+			cleanSettings.DEFAULT_CLEAN_SETTINGS
+		);
+		mockDnr.getDynamicRules.mockResolvedValue([{ id: 1000 }, { id: 1001 }]);
+
+		await applyAutoClean();
+
+		expect(mockDnr.updateDynamicRules).toHaveBeenCalledWith({
+			removeRuleIds: [1000, 1001],
+			addRules: [],
+		});
+	});
+
+	it("handles a missing declarativeNetRequest API gracefully", async () => {
+		Object.assign(chrome, { declarativeNetRequest: undefined });
+		const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		await expect(applyAutoClean()).resolves.toBeUndefined();
+		expect(warnSpy).toHaveBeenCalledWith(
+			"[AutoClean] declarativeNetRequest API not available"
+		);
+	});
+});
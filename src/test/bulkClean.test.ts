@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	bulkCleanCopyAction,
+	bulkCleanText,
+	findUrls,
+} from "../logic/bulkClean";
+import * as browserUtils from "../utils/browser";
+
+// Mock chrome API
+const mockChrome = {
+	scripting: {
+		executeScript: vi.fn(),
+	},
+	notifications: {
+		create: vi.fn(),
+	},
+	runtime: {
+		getURL: vi.fn((path: string) => `chrome-extension://mock-id/${path}`),
+		lastError: null,
+	},
+};
+
+const mockTab: chrome.tabs.Tab = {
+	id: 321,
+	index: 0,
+	pinned: false,
+	highlighted: false,
+	windowId: 1,
+	active: true,
+	incognito: false,
+	selected: false,
+	discarded: false,
+	autoDiscardable: true,
+	groupId: -1,
+	frozen: false,
+};
+
+const mockWindow: chrome.windows.Window = {
+	id: 1,
+	focused: true,
+	top: 0,
+	left: 0,
+	width: 1920,
+	height: 1080,
+	incognito: false,
+	type: "normal",
+	state: "normal",
+	alwaysOnTop: false,
+};
+
+const selectionText = `Links for today:
+- https://example.com/a?utm_source=news
+- (see https://example.org/b?fbclid=x).
+Nothing else.`;
+
+describe("findUrls", () => {
+	it("finds every URL in a block of text", () => {
+		expect(findUrls(selectionText).map(({ url }) => url)).toEqual([
+			"https://example.com/a?utm_source=news",
+			"https://example.org/b?fbclid=x",
+		]);
+	});
+
+	it("keeps balanced parentheses inside URLs", () => {
+		const text = "Read https://en.wikipedia.org/wiki/Foo_(bar), please";
+		expect(findUrls(text).map(({ url }) => url)).toEqual([
+			"https://en.wikipedia.org/wiki/Foo_(bar)",
+		]);
+	});
+
+	it("returns the position of each URL", () => {
+		expect(findUrls("go to https://a.com now")).toEqual([
+			{ url: "https://a.com", index: 6 },
+		]);
+	});
+
+	it("returns an empty array when there are no URLs", () => {
+		expect(findUrls("no links here")).toEqual([]);
+	});
+});
+
+describe("bulkCleanText", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("replaces URLs in place", () => {
+		const result = bulkCleanText(selectionText, "inline");
+		expect(result.text).toBe(`Links for today:
+- https://example.com/a
+- (see https://example.org/b).
+Nothing else.`);
+		expect(result.count).toBe(2);
+		expect(result.changed).toBe(2);
+	});
+
+	it("returns only the cleaned URLs, one per line", () => {
+		const result = bulkCleanText(selectionText, "list");
+		expect(result.text).toBe("https://example.com/a\nhttps://example.org/b");
+	});
+
+	it("uses the given clean options", () => {
+		const result = bulkCleanText(
+			"https://example.com/?page=2&utm_medium=x and https://example.com/x",
+			"inline",
+			{ mode: "balanced" }
+		);
+		expect(result.text).toBe(
+			"https://example.com/?page=2 and https://example.com/x"
+		);
+		expect(result.count).toBe(2);
+		expect(result.changed).toBe(1);
+	});
+});
+
+describe("bulkCleanCopyAction", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		Object.assign(globalThis, { chrome: mockChrome });
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.spyOn(browserUtils, "showNotification").mockResolvedValue(
+			"notification-id"
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("only shows up for selections", () => {
+		expect(bulkCleanCopyAction().contexts).toEqual(["selection"]);
+		expect(bulkCleanCopyAction("list").title).toBe(
+			"Clean Copy URLs Only (one per line)"
+		);
+	});
+
+	it("copies the selection with cleaned URLs and reports the count", async () => {
+		// First call: read DOM selection, second call: copy to clipboard
+		mockChrome.scripting.executeScript
+			.mockResolvedValueOnce([{ result: selectionText }])
+			.mockResolvedValueOnce([{ result: { success: true } }]);
+
+		await bulkCleanCopyAction("list").action({
+			tab: mockTab,
+			window: mockWindow,
+			selectionText: "collapsed selection text",
+		});
+
+		expect(mockChrome.scripting.executeScript).toHaveBeenNthCalledWith(
+			2,
+			{
+				target: { tabId: 321 },
+				func: expect.any(Function),
+				args: ["https://example.com/a\nhttps://example.org/b"],
+				injectImmediately: true,
+			}
+		);
+		expect(browserUtils.showNotification).toHaveBeenCalledWith(
+			"Clean Copy All URLs",
+			"Cleaned 2 URLs (2 changed)."
+		);
+	});
+
+	it("falls back to the context menu selection", async () => {
+		mockChrome.scripting.executeScript
+			.mockRejectedValueOnce(new Error("Cannot access page"))
+			.mockResolvedValueOnce([{ result: { success: true } }]);
+
+		await bulkCleanCopyAction().action({
+			tab: mockTab,
+			window: mockWindow,
+			selectionText: "see https://example.com/?gclid=1",
+		});
+
+		expect(mockChrome.scripting.executeScript).toHaveBeenNthCalledWith(
+			2,
+			expect.objectContaining({ args: ["see https://example.com/"] })
+		);
+	});
+
+	it("copies without a tab through the offscreen document", async () => {
+		await bulkCleanCopyAction().action({
+			tab: undefined as unknown as chrome.tabs.Tab,
+			window: mockWindow,
+			selectionText: "see https://example.com/?gclid=1",
+		});
+
+		expect(mockChrome.scripting.executeScript).not.toHaveBeenCalled();
+		expect(browserUtils.showNotification).toHaveBeenCalledWith(
+			"Clean Copy All URLs",
+			expect.stringContaining("An error occurred"),
+			true
+		);
+	});
+
+	it("shows a notification when no URLs are found", async () => {
+		mockChrome.scripting.executeScript.mockResolvedValueOnce([
+			{ result: "" },
+		]);
+
+		await bulkCleanCopyAction().action({
+			tab: mockTab,
+			window: mockWindow,
+			selectionText: "no links here",
+		});
+
+		expect(browserUtils.showNotification).toHaveBeenCalledWith(
+			"Clean Copy All URLs",
+			"No URLs found in the selection.",
+			true
+		);
+		expect(mockChrome.scripting.executeScript).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	findCanonicalUrl,
+	isSameSite,
+	pickCanonicalUrl,
+} from "../logic/canonicalUrl";
+
+describe("isSameSite", () => {
+	it("matches subdomains of the same site", () => {
+		expect(
+			isSameSite("https://m.example.com/a", "https://www.example.com/b")
+		).toBe(true);
+	});
+
+	it("rejects other sites", () => {
+		expect(
+			isSameSite("https://example.com/a", "https://example.org/a")
+		).toBe(false);
+	});
+
+	it("rejects invalid URLs", () => {
+		expect(isSameSite("not a url", "https://example.com/")).toBe(false);
+	});
+});
+
+describe("pickCanonicalUrl", () => {
+	const pageUrl = "https://www.example.com/story?utm_source=x";
+
+	it("prefers the canonical link", () => {
+		expect(
+			pickCanonicalUrl(pageUrl, {
+				canonical: "https://www.example.com/canonical",
+				ogUrl: "https://www.example.com/og",
+				jsonLd: ["https://www.example.com/ld"],
+			})
+		).toBe("https://www.example.com/canonical");
+	});
+
+	it("resolves relative URLs against the page", () => {
+		expect(pickCanonicalUrl(pageUrl, { canonical: " /story/1 " })).toBe(
+			"https://www.example.com/story/1"
+		);
+	});
+
+	it("falls back to og:url and JSON-LD", () => {
+		expect(
+			pickCanonicalUrl(pageUrl, {
+				canonical: null,
+				ogUrl: "https://tracker.example.net/story",
+				jsonLd: ["https://amp.example.com/story"],
+			})
+		).toBe("https://amp.example.com/story");
+	});
+
+	it("skips candidates pointing at the home page", () => {
+		expect(
+			pickCanonicalUrl("https://www.example.com/news/story-1", {
+				jsonLd: ["https://www.example.com/", "https://www.example.com/s/1"],
+			})
+		).toBe("https://www.example.com/s/1");
+		expect(
+			pickCanonicalUrl("https://www.example.com/?ref=x", {
+				canonical: "https://www.example.com/",
+			})
+		).toBe("https://www.example.com/");
+	});
+
+	it("accepts canonicals on short country code domains", () => {
+		expect(
+			pickCanonicalUrl("https://www.orf.at/stories/1?ref=x", {
+				canonical: "https://orf.at/stories/1",
+			})
+		).toBe("https://orf.at/stories/1");
+	});
+
+	it("ignores cross-site and non-http URLs", () => {
+		expect(
+			pickCanonicalUrl(pageUrl, {
+				canonical: "https://other.org/story",
+				ogUrl: "javascript:alert(1)",
+			})
+		).toBeNull();
+	});
+});
+
+describe("findCanonicalUrl", () => {
+	const mockChrome = {
+		scripting: {
+			executeScript: vi.fn(),
+		},
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		Object.assign(globalThis, { chrome: mockChrome });
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("reads the candidates from the tab", async () => {
+		mockChrome.scripting.executeScript.mockResolvedValue([
+			{ result: { canonical: "/a", ogUrl: null, jsonLd: [] } },
+		]);
+
+		expect(await findCanonicalUrl(1, "https://example.com/a?b=c")).toBe(
+			"https://example.com/a"
+		);
+		expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith({
+			target: { tabId: 1 },
+			func: expect.any(Function),
+		});
+	});
+
+	it("reads JSON-LD URLs of the page, not of the site", async () => {
+		mockChrome.scripting.executeScript.mockResolvedValue([]);
+		await findCanonicalUrl(1, "https://example.com/a");
+		const { func } = mockChrome.scripting.executeScript.mock.calls[0][0];
+		document.head.innerHTML = `
+			<script type="application/ld+json">${JSON.stringify({
+				"@graph": [
+					{ "@type": "Organization", url: "https://example.com/" },
+					{ "@type": "WebSite", url: "https://example.com/" },
+					{
+						"@type": "NewsArticle",
+						url: "https://example.com/article",
+						mainEntityOfPage: { "@id": "https://example.com/main" },
+					},
+				],
+			})}</script>`;
+
+		expect(func().jsonLd).toEqual([
+			"https://example.com/main",
+			"https://example.com/article",
+		]);
+		document.head.innerHTML = "";
+	});
+
+	it("returns null when the page cannot be read", async () => {
+		mockChrome.scripting.executeScript.mockRejectedValue(
+			new Error("Cannot access a chrome:// URL")
+		);
+
+		expect(await findCanonicalUrl(1, "chrome://newtab/")).toBeNull();
+	});
+});
@@ -1,6 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { cleanCopyUrl, cleanCopyUrlAction } from "../logic/cleanCopyUrl";
+import {
+	cleanCopyUrl,
+	cleanCopyUrlAction,
+	cleanUrl,
+	describeCleanResult,
+} from "../logic/cleanCopyUrl";
 import * as browserUtils from "../utils/browser";
+import * as cleanSettings from "../utils/cleanSettings";
+import * as history from "../utils/history";
+import * as cleanCopyUndo from "../logic/cleanCopyUndo";
+import { BUILT_IN_COPY_FORMATS } from "../logic/copyFormat";
 
 // Mock chrome API
 const mockChrome = {
@@ -59,6 +68,163 @@ describe("cleanCopyUrl", () => {
 	});
 });
 
+describe("cleanCopyUrl balanced mode", () => {
+	it("removes known tracking parameters", () => {
+		const url =
+			"https://example.com/page?utm_source=news&utm_medium=email&fbclid=abc&gclid=def";
+		const result = cleanCopyUrl(url, { mode: "balanced" });
+		expect(result).toBe("https://example.com/page");
+	});
+
+	it("keeps functional parameters", () => {
+		const url =
+			"https://www.youtube.com/watch?v=dQw4w9WgXcQ&utm_source=share&t=42";
+		const result = cleanCopyUrl(url, { mode: "balanced" });
+		expect(result).toBe("https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42");
+	});
+
+	it("keeps the original encoding of remaining parameters", () => {
+		const url = "https://example.com/search?q=hello+world%21&mc_eid=123";
+		const result = cleanCopyUrl(url, { mode: "balanced" });
+		expect(result).toBe("https://example.com/search?q=hello+world%21");
+	});
+
+	it("matches tracking parameters case-insensitively", () => {
+		const url = "https://example.com/list?page=2&UTM_Campaign=x&IGSHID=y";
+		const result = cleanCopyUrl(url, { mode: "balanced" });
+		expect(result).toBe("https://example.com/list?page=2");
+	});
+
+	it("drops the fragment by default", () => {
+		const url = "https://example.com/page?page=2#comments";
+		const result = cleanCopyUrl(url, { mode: "balanced" });
+		expect(result).toBe("https://example.com/page?page=2");
+	});
+});
+
+describe("cleanCopyUrl keepFragment option", () => {
+	it("keeps the fragment in strict mode", () => {
+		const url = "https://example.com/docs?utm_source=x#install";
+		const result = cleanCopyUrl(url, { keepFragment: true });
+		expect(result).toBe("https://example.com/docs#install");
+	});
+
+	it("keeps the fragment in balanced mode", () => {
+		const url = "https://example.com/docs?lang=en&fbclid=x#install";
+		const result = cleanCopyUrl(url, {
+			mode: "balanced",
+			keepFragment: true,
+		});
+		expect(result).toBe("https://example.com/docs?lang=en#install");
+	});
+});
+
+describe("cleanUrl", () => {
+	it("returns the input and output", () => {
+		const result = cleanUrl("https://example.com/path?foo=bar");
+		expect(result.input).toBe("https://example.com/path?foo=bar");
+		expect(result.output).toBe("https://example.com/path");
+	});
+
+	it("reports the rules that changed the URL", () => {
+		const result = cleanUrl(
+			"https://www.google.com/url?q=https%3A%2F%2Fyoutu.be%2Fabc%3Fsi%3Dx%26utm_source%3Dy",
+			{ mode: "balanced" }
+		);
+		expect(result.output).toBe("https://youtu.be/abc");
+		expect(result.rules).toEqual([
+			"Redirect unwrap",
+			"YouTube short links",
+			"Tracking parameters",
+		]);
+	});
+
+	it("reports no rules when nothing changed", () => {
+		expect(cleanUrl("https://example.com/").rules).toEqual([]);
+	});
+
+	it("reports the removed parameters", () => {
+		const result = cleanUrl(
+			"https://example.com/page?utm_source=a&id=1&fbclid=b",
+			{ mode: "balanced" }
+		);
+		expect(result).toEqual({
+			input: "https://example.com/page?utm_source=a&id=1&fbclid=b",
+			output: "https://example.com/page?id=1",
+			status: "cleaned",
+			removedParams: ["utm_source", "fbclid"],
+			rules: ["Tracking parameters"],
+			warnings: [],
+			trace: expect.any(Array),
+		});
+	});
+
+	it("reports already clean URLs as unchanged", () => {
+		expect(cleanUrl("https://example.com").status).toBe("unchanged");
+	});
+
+	it("reports invalid input", () => {
+		const result = cleanUrl("not a url");
+		expect(result.status).toBe("invalid");
+		expect(result.output).toBe("");
+	});
+
+	it("rejects unsupported schemes", () => {
+		const result = cleanUrl("javascript:alert(1)");
+		expect(result.status).toBe("unsupported");
+		expect(result.output).toBe("");
+		expect(result.warnings).toEqual([
+			"javascript: URLs are not supported",
+		]);
+	});
+
+	it("warns when strict mode removes functional parameters", () => {
+		const result = cleanUrl("https://example.com/item?id=5&utm_source=x");
+		expect(result.removedParams).toEqual(["id", "utm_source"]);
+		expect(result.warnings).toEqual([
+			"Strict mode removed parameters that may be required: id",
+		]);
+	});
+
+	it("does not warn about parameters dropped by domain rules", () => {
+		const result = cleanUrl("https://www.youtube.com/watch?v=abc&si=x");
+		expect(result.output).toBe("https://www.youtube.com/watch?v=abc");
+		expect(result.removedParams).toEqual(["si"]);
+		expect(result.warnings).toEqual([]);
+	});
+});
+
+describe("describeCleanResult", () => {
+	it("counts the removed tracking parameters", () => {
+		const result = cleanUrl(
+			"https://example.com/?utm_source=a&utm_medium=b&gclid=c&fbclid=d",
+			{ mode: "balanced" }
+		);
+		expect(describeCleanResult(result)).toBe(
+			"Removed 4 tracking parameters."
+		);
+	});
+
+	it("mentions unwrapped redirects", () => {
+		const result = cleanUrl(
+			"https://www.google.com/url?q=https%3A%2F%2Fexample.com%2F%3Futm_source%3Dx",
+			{ mode: "balanced" }
+		);
+		expect(describeCleanResult(result)).toBe(
+			"Unwrapped a redirect, removed 1 tracking parameter."
+		);
+	});
+
+	it("describes unsupported and unchanged URLs", () => {
+		expect(describeCleanResult(cleanUrl("javascript:void(0)"))).toBe(
+			"javascript: URLs are not supported."
+		);
+		expect(describeCleanResult(cleanUrl("https://example.com/"))).toBe(
+			"The URL was already clean."
+		);
+	});
+});
+
 describe("cleanCopyUrlAction", () => {
 	let consoleSpy: {
 		debug: any;
@@ -83,6 +249,12 @@ describe("cleanCopyUrlAction", () => {
 		vi.spyOn(browserUtils, "showNotification").mockResolvedValue(
 			"notification-id"
 		);
+		vi.spyOn(browserUtils, "showNotificationWithButtons").mockResolvedValue(
+			"notification-id"
+		);
+
+		// Mock history recording
+		vi.spyOn(history, "addHistoryEntries").mockResolvedValue([]);
 	});
 
 	afterEach(() => {
@@ -100,10 +272,26 @@ describe("cleanCopyUrlAction", () => {
 			expect(action.contexts).toEqual(["link", "selection", "page"]);
 		});
 
+		it("only shows up for http and https links", () => {
+			const action = cleanCopyUrlAction();
+			expect(action.targetUrlPatterns).toEqual([
+				"http://*/*",
+				"https://*/*",
+			]);
+		});
+
 		it("provides an action function", () => {
 			const action = cleanCopyUrlAction();
 			expect(action.action).toBeInstanceOf(Function);
 		});
+
+		it("names the action after its copy format", () => {
+			const markdown = BUILT_IN_COPY_FORMATS.find(
+				(format) => format.id === "markdown"
+			);
+			const action = cleanCopyUrlAction(markdown);
+			expect(action.title).toBe("Clean Copy as Markdown");
+		});
 	});
 
 	describe("action execution with valid URL in selection", () => {
@@ -137,14 +325,14 @@ describe("cleanCopyUrlAction", () => {
 			};
 
 			mockChrome.scripting.executeScript.mockResolvedValue([
-				{ result: undefined },
+				{ result: { success: true } },
 			]);
 
 			const action = cleanCopyUrlAction();
 			await action.action({
 				tab: mockTab,
 				window: mockWindow,
-				selection: "https://example.com/path?query=value#hash",
+				selectionText: "https://example.com/path?utm_source=value#hash",
 			});
 
 			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith({
@@ -185,14 +373,14 @@ describe("cleanCopyUrlAction", () => {
 			};
 
 			mockChrome.scripting.executeScript.mockResolvedValue([
-				{ result: undefined },
+				{ result: { success: true } },
 			]);
 
 			const action = cleanCopyUrlAction();
 			await action.action({
 				tab: mockTab,
 				window: mockWindow,
-				selection: "https://test.com/page",
+				selectionText: "https://test.com/page",
 			});
 
 			expect(consoleSpy.debug).toHaveBeenCalledWith(
@@ -208,6 +396,530 @@ describe("cleanCopyUrlAction", () => {
 		});
 	});
 
+	describe("action execution with copy formats", () => {
+		const mockTab: chrome.tabs.Tab = {
+			id: 126,
+			index: 0,
+			pinned: false,
+			highlighted: false,
+			windowId: 1,
+			active: true,
+			incognito: false,
+			selected: false,
+			discarded: false,
+			autoDiscardable: true,
+			groupId: -1,
+			frozen: false,
+			title: "Example Page",
+		};
+
+		const mockWindow: chrome.windows.Window = {
+			id: 1,
+			focused: true,
+			top: 0,
+			left: 0,
+			width: 1920,
+			height: 1080,
+			incognito: false,
+			type: "normal",
+			state: "normal",
+			alwaysOnTop: false,
+		};
+
+		it("copies the rendered template as text", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			const action = cleanCopyUrlAction({
+				id: "markdown",
+				name: "Markdown",
+				template: "[{title}]({url})",
+			});
+			await action.action({
+				tab: mockTab,
+				window: mockWindow,
+				selectionText: "https://example.com/path?utm_source=value",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith({
+				target: { tabId: 126 },
+				func: expect.any(Function),
+				args: ["[Example Page](https://example.com/path)"],
+				injectImmediately: true,
+			});
+		});
+
+		it("copies both text and HTML for rich formats", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			const action = cleanCopyUrlAction({
+				id: "rich",
+				name: "Rich Text",
+				template: "{title} ({url})",
+				htmlTemplate: '<a href="{url}">{title}</a>',
+			});
+			await action.action({
+				tab: mockTab,
+				window: mockWindow,
+				selectionText: "https://example.com/path",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith({
+				target: { tabId: 126 },
+				func: expect.any(Function),
+				args: [
+					"Example Page (https://example.com/path)",
+					'<a href="https://example.com/path">Example Page</a>',
+				],
+				injectImmediately: true,
+			});
+		});
+	});
+
+	describe("action execution with redirect wrappers", () => {
+		it("offers the exception for the destination of a wrapped link", async () => {
+			const notify = vi.spyOn(cleanCopyUndo, "notifyCleanCopy");
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			await cleanCopyUrlAction().action({
+				tab: { id: 125 } as chrome.tabs.Tab,
+				window: {} as chrome.windows.Window,
+				linkUrl: `https://www.google.com/url?q=${encodeURIComponent(
+					"https://www.google.com/amp/s/news.example.com/story?utm_source=x"
+				)}`,
+			});
+
+			expect(notify).toHaveBeenCalledWith(
+				expect.any(String),
+				expect.objectContaining({ host: "news.example.com" }),
+				undefined
+			);
+		});
+
+		it("unwraps a redirect URL in the selection", async () => {
+			const mockTab: chrome.tabs.Tab = {
+				id: 125,
+				index: 0,
+				pinned: false,
+				highlighted: false,
+				windowId: 1,
+				active: true,
+				incognito: false,
+				selected: false,
+				discarded: false,
+				autoDiscardable: true,
+				groupId: -1,
+				frozen: false,
+			};
+
+			const mockWindow: chrome.windows.Window = {
+				id: 1,
+				focused: true,
+				top: 0,
+				left: 0,
+				width: 1920,
+				height: 1080,
+				incognito: false,
+				type: "normal",
+				state: "normal",
+				alwaysOnTop: false,
+			};
+
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			const action = cleanCopyUrlAction();
+			await action.action({
+				tab: mockTab,
+				window: mockWindow,
+				selectionText:
+					"https://l.facebook.com/l.php?u=https%3A%2F%2Fexample.com%2Fpath%3Ffbclid%3Dx&h=AT0",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith({
+				target: { tabId: 125 },
+				func: expect.any(Function),
+				args: ["https://example.com/path"],
+				injectImmediately: true,
+			});
+		});
+	});
+
+	describe("action execution with history", () => {
+		it("records the clean copy in the history", async () => {
+			const mockTab: chrome.tabs.Tab = {
+				id: 127,
+				index: 0,
+				pinned: false,
+				highlighted: false,
+				windowId: 1,
+				active: true,
+				incognito: false,
+				selected: false,
+				discarded: false,
+				autoDiscardable: true,
+				groupId: -1,
+				frozen: false,
+				title: "Example Page",
+			};
+
+			const mockWindow: chrome.windows.Window = {
+				id: 1,
+				focused: true,
+				top: 0,
+				left: 0,
+				width: 1920,
+				height: 1080,
+				incognito: false,
+				type: "normal",
+				state: "normal",
+				alwaysOnTop: false,
+			};
+
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			const action = cleanCopyUrlAction();
+			await action.action({
+				tab: mockTab,
+				window: mockWindow,
+				selectionText: "https://example.com/path?utm_source=value",
+			});
+
+			expect(history.addHistoryEntries).toHaveBeenCalledWith([
+				{
+					originalUrl: "https://example.com/path?utm_source=value",
+					cleanedUrl: "https://example.com/path",
+					title: "Example Page",
+					rules: ["Tracking parameters"],
+				},
+			]);
+		});
+
+		it("does not record failed copies", async () => {
+			const mockTab: chrome.tabs.Tab = {
+				id: 128,
+				index: 0,
+				pinned: false,
+				highlighted: false,
+				windowId: 1,
+				active: true,
+				incognito: false,
+				selected: false,
+				discarded: false,
+				autoDiscardable: true,
+				groupId: -1,
+				frozen: false,
+			};
+
+			const mockWindow: chrome.windows.Window = {
+				id: 1,
+				focused: true,
+				top: 0,
+				left: 0,
+				width: 1920,
+				height: 1080,
+				incognito: false,
+				type: "normal",
+				state: "normal",
+				alwaysOnTop: false,
+			};
+
+			mockChrome.scripting.executeScript.mockRejectedValue(
+				new Error("Clipboard permission denied")
+			);
+
+			const action = cleanCopyUrlAction();
+			await action.action({
+				tab: mockTab,
+				window: mockWindow,
+				selectionText: "https://example.com/path?utm_source=value",
+			});
+
+			expect(history.addHistoryEntries).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("action execution with clean settings", () => {
+		it("uses the clean mode selected in options", async () => {
+			const mockTab: chrome.tabs.Tab = {
+				id: 124,
+				index: 0,
+				pinned: false,
+				highlighted: false,
+				windowId: 1,
+				active: true,
+				incognito: false,
+				selected: false,
+				discarded: false,
+				autoDiscardable: true,
+				groupId: -1,
+				frozen: false,
+			};
+
+			const mockWindow: chrome.windows.Window = {
+				id: 1,
+				focused: true,
+				top: 0,
+				left: 0,
+				width: 1920,
+				height: 1080,
+				incognito: false,
+				type: "normal",
+				state: "normal",
+				alwaysOnTop: false,
+			};
+
+			vi.spyOn(cleanSettings, "getCleanSettings").mockResolvedValue({
+				...cleanSettings.DEFAULT_CLEAN_SETTINGS,
+				mode: "balanced",
+				keepFragment: true,
+			});
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			const action = cleanCopyUrlAction();
+			await action.action({
+				tab: mockTab,
+				window: mockWindow,
+				selectionText:
+					"https://example.com/path?query=value&utm_source=x#hash",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith({
+				target: { tabId: 124 },
+				func: expect.any(Function),
+				args: ["https://example.com/path?query=value#hash"],
+				injectImmediately: true,
+			});
+		});
+	});
+
+	describe("action feedback", () => {
+		const mockTab = { id: 129, title: "Page" } as chrome.tabs.Tab;
+
+		it("notifies how the URL was cleaned", async () => {
+			vi.spyOn(cleanSettings, "getCleanSettings").mockResolvedValue({
+				...cleanSettings.DEFAULT_CLEAN_SETTINGS,
+				mode: "balanced",
+			});
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			await cleanCopyUrlAction().action({
+				tab: mockTab,
+				window: {} as chrome.windows.Window,
+				selectionText: "https://example.com/?utm_source=a&fbclid=b",
+			});
+
+			expect(browserUtils.showNotificationWithButtons).toHaveBeenCalledWith(
+				"Clean Copy URL",
+				"Removed 2 tracking parameters.",
+				[
+					{ title: "Copy original" },
+					{ title: "Add exception for this site" },
+				],
+				false,
+				undefined
+			);
+		});
+
+		it("rejects unsupported schemes without searching the page", async () => {
+			await cleanCopyUrlAction().action({
+				tab: mockTab,
+				window: {} as chrome.windows.Window,
+				selectionText: "javascript:void(0)",
+			});
+
+			expect(mockChrome.scripting.executeScript).not.toHaveBeenCalled();
+			expect(browserUtils.showNotification).toHaveBeenCalledWith(
+				"Clean Copy URL",
+				"javascript: URLs are not supported.",
+				true
+			);
+		});
+
+		it("keeps functional parameters by default", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			await cleanCopyUrlAction().action({
+				tab: { id: 126, windowId: 1 } as chrome.tabs.Tab,
+				window: {} as chrome.windows.Window,
+				selectionText:
+					"https://example.com/search?q=foo&page=2&utm_source=x",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith(
+				expect.objectContaining({
+					args: ["https://example.com/search?q=foo&page=2"],
+				})
+			);
+		});
+	});
+
+	describe("action execution in the page context", () => {
+		const pageTab = {
+			id: 125,
+			windowId: 1,
+			title: "Article",
+			url: "https://www.example.com/article/42?utm_source=feed&page=2",
+		} as chrome.tabs.Tab;
+
+		it("cleans the tab URL when there is no selection", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			await cleanCopyUrlAction().action({
+				tab: pageTab,
+				window: {} as chrome.windows.Window,
+				selectionText: "",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledTimes(1);
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith(
+				expect.objectContaining({
+					args: ["https://www.example.com/article/42?page=2"],
+				})
+			);
+		});
+
+		it("prefers the canonical URL when enabled", async () => {
+			vi.spyOn(cleanSettings, "getCleanSettings").mockResolvedValue({
+				...cleanSettings.DEFAULT_CLEAN_SETTINGS,
+				preferCanonical: true,
+			});
+			mockChrome.scripting.executeScript
+				.mockResolvedValueOnce([
+					{
+						result: {
+							canonical: "/news/article-42?utm_campaign=canonical",
+							ogUrl: null,
+							jsonLd: [],
+						},
+					},
+				])
+				.mockResolvedValueOnce([{ result: { success: true } }]);
+
+			await cleanCopyUrlAction().action({
+				tab: pageTab,
+				window: {} as chrome.windows.Window,
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenLastCalledWith(
+				expect.objectContaining({
+					args: ["https://www.example.com/news/article-42"],
+				})
+			);
+			expect(browserUtils.showNotificationWithButtons).toHaveBeenCalledWith(
+				"Clean Copy URL",
+				expect.stringContaining("Used the page's canonical URL."),
+				expect.any(Array),
+				false,
+				pageTab.url
+			);
+		});
+
+		it("ignores the canonical URL for a selection", async () => {
+			vi.spyOn(cleanSettings, "getCleanSettings").mockResolvedValue({
+				...cleanSettings.DEFAULT_CLEAN_SETTINGS,
+				preferCanonical: true,
+			});
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			await cleanCopyUrlAction().action({
+				tab: pageTab,
+				window: {} as chrome.windows.Window,
+				selectionText: "https://example.org/link?utm_source=x",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledTimes(1);
+			expect(
+				browserUtils.showNotificationWithButtons
+			).not.toHaveBeenCalledWith(
+				"Clean Copy URL",
+				expect.stringContaining("canonical"),
+				expect.anything(),
+				false,
+				pageTab.url
+			);
+			expect(browserUtils.showNotificationWithButtons).toHaveBeenCalled();
+		});
+
+		it("cleans the top-level page URL for clicks in frames", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			await cleanCopyUrlAction().action({
+				tab: pageTab,
+				window: {} as chrome.windows.Window,
+				frameId: 3,
+				pageUrl: "https://www.example.com/top?utm_source=x",
+				frameUrl: "https://ads.example.net/frame?id=1",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith(
+				expect.objectContaining({ args: ["https://www.example.com/top"] })
+			);
+		});
+	});
+
+	describe("action execution on links", () => {
+		const linkTab = { id: 126, title: "Links" } as chrome.tabs.Tab;
+
+		it("copies the clicked link", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			await cleanCopyUrlAction().action({
+				tab: linkTab,
+				window: {} as chrome.windows.Window,
+				linkUrl: "https://example.com/post?fbclid=abc",
+				srcUrl: "https://cdn.example.com/thumb.png",
+				mediaType: "image",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledTimes(1);
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith(
+				expect.objectContaining({ args: ["https://example.com/post"] })
+			);
+		});
+
+		it("prefers the link over its selected text", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			await cleanCopyUrlAction().action({
+				tab: linkTab,
+				window: {} as chrome.windows.Window,
+				linkUrl: "https://example.com/post?fbclid=abc",
+				selectionText: "Read the post",
+			});
+
+			// The link is used directly, without searching the page for it
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledTimes(1);
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith(
+				expect.objectContaining({ args: ["https://example.com/post"] })
+			);
+		});
+	});
+
 	describe("action execution with link text selection", () => {
 		it("finds and cleans URL when selection matches link text", async () => {
 			const mockTab: chrome.tabs.Tab = {
@@ -242,15 +954,21 @@ describe("cleanCopyUrlAction", () => {
 			// Second call: copy to clipboard
 			mockChrome.scripting.executeScript
 				.mockResolvedValueOnce([
-					{ result: "https://found.com/link?query=test" },
+					{
+						frameId: 0,
+						result: {
+							href: "https://found.com/link?utm_source=test",
+							score: 80,
+						},
+					},
 				])
-				.mockResolvedValueOnce([{ result: undefined }]);
+				.mockResolvedValueOnce([{ result: { success: true } }]);
 
 			const action = cleanCopyUrlAction();
 			await action.action({
 				tab: mockTab,
 				window: mockWindow,
-				selection: "Click here",
+				selectionText: "Click here",
 			});
 
 			// Should call executeScript twice: once to find link, once to copy
@@ -268,6 +986,65 @@ describe("cleanCopyUrlAction", () => {
 			);
 		});
 
+		it("unwraps redirect URLs found by link text", async () => {
+			const mockTab: chrome.tabs.Tab = {
+				id: 790,
+				index: 0,
+				pinned: false,
+				highlighted: false,
+				windowId: 1,
+				active: true,
+				incognito: false,
+				selected: false,
+				discarded: false,
+				autoDiscardable: true,
+				groupId: -1,
+				frozen: false,
+			};
+
+			const mockWindow: chrome.windows.Window = {
+				id: 1,
+				focused: true,
+				top: 0,
+				left: 0,
+				width: 1920,
+				height: 1080,
+				incognito: false,
+				type: "normal",
+				state: "normal",
+				alwaysOnTop: false,
+			};
+
+			mockChrome.scripting.executeScript
+				.mockResolvedValueOnce([
+					{
+						frameId: 0,
+						result: {
+							href: "https://www.google.com/url?q=https%3A%2F%2Ffound.com%2Flink%3Futm_source%3Dtest",
+							score: 80,
+						},
+					},
+				])
+				.mockResolvedValueOnce([{ result: { success: true } }]);
+
+			const action = cleanCopyUrlAction();
+			await action.action({
+				tab: mockTab,
+				window: mockWindow,
+				selectionText: "Click here",
+			});
+
+			expect(mockChrome.scripting.executeScript).toHaveBeenNthCalledWith(
+				2,
+				{
+					target: { tabId: 790 },
+					func: expect.any(Function),
+					args: ["https://found.com/link"],
+					injectImmediately: true,
+				}
+			);
+		});
+
 		it("shows notification when no valid URL found", async () => {
 			const mockTab: chrome.tabs.Tab = {
 				id: 111,
@@ -306,7 +1083,7 @@ describe("cleanCopyUrlAction", () => {
 			await action.action({
 				tab: mockTab,
 				window: mockWindow,
-				selection: "Not a link",
+				selectionText: "Not a link",
 			});
 
 			expect(browserUtils.showNotification).toHaveBeenCalledWith(
@@ -355,7 +1132,7 @@ describe("cleanCopyUrlAction", () => {
 			await action.action({
 				tab: mockTab,
 				window: mockWindow,
-				selection: "https://example.com",
+				selectionText: "https://example.com",
 			});
 
 			expect(consoleSpy.warn).toHaveBeenCalledWith(
@@ -409,13 +1186,27 @@ describe("cleanCopyUrlAction", () => {
 			await action.action({
 				tab: mockTab,
 				window: mockWindow,
-				selection: "https://example.com",
+				selectionText: "https://example.com",
 			});
 
-			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith(
-				expect.objectContaining({
-					target: { tabId: 0 },
-				})
+			// The clipboard is written by the offscreen document instead
+			expect(mockChrome.scripting.executeScript).not.toHaveBeenCalled();
+		});
+
+		it("reports failures when there is no tab", async () => {
+			await cleanCopyUrlAction().action({
+				tab: undefined as unknown as chrome.tabs.Tab,
+				window: {} as chrome.windows.Window,
+				selectionText: "https://example.com/?utm_source=x",
+			});
+
+			expect(mockChrome.scripting.executeScript).not.toHaveBeenCalled();
+			expect(browserUtils.showNotification).toHaveBeenCalledWith(
+				"Clean Copy URL",
+				expect.stringContaining(
+					"An error occurred while copying the cleaned URL"
+				),
+				true
 			);
 		});
 	});
@@ -454,7 +1245,7 @@ describe("cleanCopyUrlAction", () => {
 			await action.action({
 				tab: mockTab,
 				window: mockWindow,
-				selection: undefined,
+				selectionText: undefined,
 			});
 
 			expect(browserUtils.showNotification).toHaveBeenCalledWith(
@@ -501,7 +1292,7 @@ describe("cleanCopyUrlAction", () => {
 			await action.action({
 				tab: mockTab,
 				window: mockWindow,
-				selection: "",
+				selectionText: "",
 			});
 
 			expect(browserUtils.showNotification).toHaveBeenCalledWith(
@@ -544,13 +1335,13 @@ describe("cleanCopyUrlAction", () => {
 
 			mockChrome.scripting.executeScript
 				.mockResolvedValueOnce([{ result: url }])
-				.mockResolvedValueOnce([{ result: undefined }]);
+				.mockResolvedValueOnce([{ result: { success: true } }]);
 
 			const action = cleanCopyUrlAction();
 			await action.action({
 				tab: mockTab,
 				window: mockWindow,
-				selection: url,
+				selectionText: url,
 			});
 
 			// Should still attempt link search since initial clean returned empty
@@ -603,7 +1394,7 @@ describe("cleanCopyUrlAction", () => {
 			};
 
 			mockChrome.scripting.executeScript.mockResolvedValue([
-				{ result: undefined },
+				{ result: { success: true } },
 			]);
 
 			const action = cleanCopyUrlAction();
@@ -613,7 +1404,7 @@ describe("cleanCopyUrlAction", () => {
 				action.action({
 					tab: mockTab,
 					window: mockWindow,
-					selection: "https://test.com",
+					selectionText: "https://test.com",
 				})
 			).resolves.not.toThrow();
 		});
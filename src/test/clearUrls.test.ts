@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	applyClearUrlsProviders,
+	exportClearUrlsData,
+	parseClearUrlsJson,
+	validateClearUrlsData,
+	validateProvider,
+	type ClearUrlsProviders,
+} from "../logic/clearUrls";
+import { cleanCopyUrl, cleanUrl } from "../logic/cleanCopyUrl";
+
+const providers: ClearUrlsProviders = {
+	example: {
+		urlPattern: "^https?:\\/\\/(?:[a-z0-9-]+\\.)*?example\\.com",
+		rules: ["ref", "campaign_[a-z]+"],
+		referralMarketing: ["affiliate"],
+		rawRules: ["\\/track\\/[0-9]+"],
+		exceptions: ["^https?:\\/\\/(?:[a-z0-9-]+\\.)*?example\\.com\\/keep"],
+	},
+	redirector: {
+		urlPattern: "^https?:\\/\\/out\\.example\\.net",
+		redirections: ["^https?:\\/\\/out\\.example\\.net\\/\\?to=([^&]*)"],
+	},
+};
+
+describe("validateProvider", () => {
+	it("accepts a valid provider", () => {
+		expect(validateProvider(providers.example)).toEqual([]);
+	});
+
+	it("requires a urlPattern", () => {
+		expect(validateProvider({ rules: ["a"] })).toEqual([
+			'"urlPattern" must be a non-empty string',
+		]);
+	});
+
+	it("reports invalid regular expressions", () => {
+		const errors = validateProvider({
+			urlPattern: "example",
+			rules: ["ok", "("],
+		});
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toMatch(/^Invalid "rules\[1\]":/);
+	});
+
+	it("reports wrong field types", () => {
+		expect(
+			validateProvider({
+				urlPattern: "example",
+				exceptions: "nope",
+				completeProvider: "yes",
+			})
+		).toEqual([
+			'"exceptions" must be an array of strings',
+			'"completeProvider" must be a boolean',
+		]);
+	});
+});
+
+describe("validateClearUrlsData", () => {
+	it("keeps valid providers and reports errors per provider", () => {
+		const result = validateClearUrlsData({
+			providers: {
+				good: { urlPattern: "good\\.com" },
+				bad: { urlPattern: "[" },
+			},
+		});
+
+		expect(Object.keys(result.providers)).toEqual(["good"]);
+		expect(result.errors).toEqual([
+			{ provider: "bad", message: expect.stringContaining("urlPattern") },
+		]);
+	});
+
+	it("rejects data without providers", () => {
+		expect(validateClearUrlsData({ rules: [] })).toEqual({
+			providers: {},
+			errors: [{ provider: "", message: 'Missing "providers" object' }],
+		});
+	});
+});
+
+describe("parseClearUrlsJson", () => {
+	it("reports invalid JSON", () => {
+		const result = parseClearUrlsJson("{ not json");
+		expect(result.providers).toEqual({});
+		expect(result.errors[0].message).toMatch(/^Invalid JSON:/);
+	});
+
+	it("round-trips with exportClearUrlsData", () => {
+		const result = parseClearUrlsJson(exportClearUrlsData(providers));
+		expect(result).toEqual({ providers, errors: [] });
+	});
+});
+
+describe("applyClearUrlsProviders", () => {
+	it("removes parameters matching rules and referral marketing", () => {
+		const result = applyClearUrlsProviders(
+			"https://shop.example.com/item?id=1&ref=home&campaign_spring=1&affiliate=x",
+			providers
+		);
+		expect(result).toEqual({
+			url: "https://shop.example.com/item?id=1",
+			applied: ["example"],
+			redirected: false,
+			removedParams: ["ref", "campaign_spring", "affiliate"],
+		});
+	});
+
+	it("applies raw rules to the URL string", () => {
+		const result = applyClearUrlsProviders(
+			"https://example.com/track/123/page",
+			providers
+		);
+		expect(result.url).toBe("https://example.com/page");
+	});
+
+	it("skips providers whose exceptions match", () => {
+		const url = "https://example.com/keep?ref=home";
+		expect(applyClearUrlsProviders(url, providers)).toEqual({
+			url,
+			applied: [],
+			redirected: false,
+			removedParams: [],
+		});
+	});
+
+	it("follows redirections", () => {
+		const result = applyClearUrlsProviders(
+			"https://out.example.net/?to=https%3A%2F%2Fexample.com%2Fa%3Fref%3Dx",
+			providers
+		);
+		expect(result).toEqual({
+			url: "https://example.com/a?ref=x",
+			applied: ["redirector"],
+			redirected: true,
+			removedParams: [],
+		});
+	});
+
+	it("leaves URLs of other sites untouched", () => {
+		const url = "https://other.org/?ref=home";
+		expect(applyClearUrlsProviders(url, providers).url).toBe(url);
+	});
+});
+
+describe("cleanUrl with ClearURLs providers", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("cleans redirect targets with the providers again", () => {
+		const result = cleanUrl(
+			"https://out.example.net/?to=https%3A%2F%2Fexample.com%2Fa%3Fid%3D1%26ref%3Dx",
+			{ mode: "balanced", providers }
+		);
+		expect(result.output).toBe("https://example.com/a?id=1");
+		expect(result.rules).toEqual(["redirector", "example"]);
+	});
+
+	it("runs providers in strict mode too", () => {
+		expect(
+			cleanCopyUrl("https://example.com/track/1/page?id=1", {
+				providers,
+			})
+		).toBe("https://example.com/page");
+	});
+});
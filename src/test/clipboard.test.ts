@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	OFFSCREEN_DOCUMENT_PATH,
+	writeClipboard,
+	writeClipboardInTab,
+	writeClipboardOffscreen,
+} from "../utils/clipboard";
+
+const mockChrome = {
+	scripting: {
+		executeScript: vi.fn(),
+	},
+	offscreen: {
+		createDocument: vi.fn(() => Promise.resolve()),
+	},
+	runtime: {
+		getContexts: vi.fn(() => Promise.resolve([] as unknown[])),
+		getURL: vi.fn((path: string) => `chrome-extension://mock-id/${path}`),
+		sendMessage: vi.fn(),
+	},
+};
+
+describe("clipboard", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		Object.assign(globalThis, { chrome: mockChrome });
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("writeClipboardInTab", () => {
+		it("reports success from the injected function", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			expect(await writeClipboardInTab(1, "text")).toEqual({
+				success: true,
+				method: "tab",
+			});
+			expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith({
+				target: { tabId: 1 },
+				func: expect.any(Function),
+				args: ["text"],
+				injectImmediately: true,
+			});
+		});
+
+		it("reports errors from the injected function", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{
+					result: {
+						success: false,
+						error: "NotAllowedError: Document is not focused.",
+					},
+				},
+			]);
+
+			expect(await writeClipboardInTab(1, "text")).toEqual({
+				success: false,
+				method: "tab",
+				error: "NotAllowedError: Document is not focused.",
+			});
+		});
+
+		it("reports pages that cannot be scripted", async () => {
+			mockChrome.scripting.executeScript.mockRejectedValue(
+				new Error("Cannot access a chrome:// URL")
+			);
+
+			expect(await writeClipboardInTab(1, "text")).toEqual({
+				success: false,
+				method: "tab",
+				error: "Cannot access a chrome:// URL",
+			});
+		});
+	});
+
+	describe("writeClipboardOffscreen", () => {
+		it("creates the offscreen document and sends the text", async () => {
+			mockChrome.runtime.sendMessage.mockResolvedValue({ success: true });
+
+			const result = await writeClipboardOffscreen("text", "<b>html</b>");
+
+			expect(result).toEqual({
+				success: true,
+				method: "offscreen",
+				error: undefined,
+			});
+			expect(mockChrome.offscreen.createDocument).toHaveBeenCalledWith({
+				url: OFFSCREEN_DOCUMENT_PATH,
+				reasons: ["CLIPBOARD"],
+				justification: expect.any(String),
+			});
+			expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({
+				target: "offscreen",
+				type: "clipboard-write",
+				text: "text",
+				html: "<b>html</b>",
+			});
+		});
+
+		it("reuses an open offscreen document", async () => {
+			mockChrome.runtime.getContexts.mockResolvedValueOnce([{}]);
+			mockChrome.runtime.sendMessage.mockResolvedValue({ success: true });
+
+			await writeClipboardOffscreen("text");
+
+			expect(mockChrome.offscreen.createDocument).not.toHaveBeenCalled();
+		});
+
+		it("reports a missing response", async () => {
+			mockChrome.runtime.sendMessage.mockResolvedValue(undefined);
+
+			expect(await writeClipboardOffscreen("text")).toEqual({
+				success: false,
+				method: "offscreen",
+				error: "No response from the offscreen document",
+			});
+		});
+
+		it("fails without the offscreen API", async () => {
+			Object.assign(globalThis, {
+				chrome: { ...mockChrome, offscreen: undefined },
+			});
+
+			expect((await writeClipboardOffscreen("text")).success).toBe(false);
+		});
+	});
+
+	describe("writeClipboard", () => {
+		it("does not open the offscreen document when the tab succeeds", async () => {
+			mockChrome.scripting.executeScript.mockResolvedValue([
+				{ result: { success: true } },
+			]);
+
+			expect((await writeClipboard(1, "text")).method).toBe("tab");
+			expect(mockChrome.runtime.sendMessage).not.toHaveBeenCalled();
+		});
+
+		it("falls back to the offscreen document", async () => {
+			mockChrome.scripting.executeScript.mockRejectedValue(
+				new Error("Cannot access contents of the page")
+			);
+			mockChrome.runtime.sendMessage.mockResolvedValue({ success: true });
+
+			expect(await writeClipboard(1, "text")).toEqual({
+				success: true,
+				method: "offscreen",
+				error: undefined,
+			});
+		});
+
+		it("skips the tab without a tab id", async () => {
+			mockChrome.runtime.sendMessage.mockResolvedValue({ success: true });
+
+			await writeClipboard(undefined, "text");
+
+			expect(mockChrome.scripting.executeScript).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	COMMAND_ACTIONS,
+	dispatchCommand,
+	getCommandBindings,
+	setupCommands,
+} from "../utils/commands";
+import {
+	openSidebarAction,
+	toggleDisplayModeAction,
+} from "../logic/displayModeActions";
+import * as displayMode from "../utils/displayMode";
+import * as browserUtils from "../utils/browser";
+
+const mockChrome = {
+	commands: {
+		getAll: vi.fn(),
+		onCommand: {
+			addListener: vi.fn(),
+		},
+	},
+	tabs: {
+		query: vi.fn(),
+	},
+	sidePanel: {
+		open: vi.fn(),
+		setOptions: vi.fn(),
+	},
+	notifications: {
+		create: vi.fn(),
+		getPermissionLevel: vi.fn(),
+	},
+	runtime: {
+		getURL: vi.fn((path: string) => path),
+	},
+};
+
+describe("commands", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		Object.assign(globalThis, { chrome: mockChrome });
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("dispatchCommand", () => {
+		it("runs the action for the tab without a selection", async () => {
+			const action = vi.fn();
+			vi.spyOn(COMMAND_ACTIONS, "clean-copy-url").mockReturnValue({
+				title: "Clean Copy URL",
+				action,
+			});
+			const tab = {
+				id: 3,
+				windowId: 7,
+				url: "https://example.com/?utm_source=x",
+			} as chrome.tabs.Tab;
+
+			expect(await dispatchCommand("clean-copy-url", tab)).toBe(true);
+			expect(action).toHaveBeenCalledWith({
+				tab,
+				window: { id: 7 },
+			});
+			expect(mockChrome.tabs.query).not.toHaveBeenCalled();
+		});
+
+		it("falls back to the active tab", async () => {
+			const action = vi.fn();
+			vi.spyOn(COMMAND_ACTIONS, "clean-copy-url").mockReturnValue({
+				title: "Clean Copy URL",
+				action,
+			});
+			const tab = { id: 1, url: "https://example.com/" };
+			mockChrome.tabs.query.mockResolvedValue([tab]);
+
+			await dispatchCommand("clean-copy-url");
+
+			expect(mockChrome.tabs.query).toHaveBeenCalledWith({
+				active: true,
+				currentWindow: true,
+			});
+			expect(action).toHaveBeenCalledWith(
+				expect.objectContaining({ tab })
+			);
+		});
+
+		it("ignores unknown commands", async () => {
+			expect(await dispatchCommand("unknown")).toBe(false);
+		});
+	});
+
+	describe("setupCommands", () => {
+		it("registers a command listener", () => {
+			setupCommands();
+			expect(mockChrome.commands.onCommand.addListener).toHaveBeenCalled();
+		});
+	});
+
+	describe("getCommandBindings", () => {
+		it("lists the extension commands with their shortcuts", async () => {
+			mockChrome.commands.getAll.mockResolvedValue([
+				{ name: "_execute_action", shortcut: "" },
+				{
+					name: "clean-copy-url",
+					description: "Clean copy the current tab URL",
+					shortcut: "Alt+Shift+C",
+				},
+				{ name: "open-sidebar", description: "Open the sidebar" },
+			]);
+
+			expect(await getCommandBindings()).toEqual([
+				{
+					name: "clean-copy-url",
+					description: "Clean copy the current tab URL",
+					shortcut: "Alt+Shift+C",
+				},
+				{
+					name: "open-sidebar",
+					description: "Open the sidebar",
+					shortcut: "",
+				},
+			]);
+		});
+	});
+
+	describe("display mode actions", () => {
+		it("toggles between popup and sidebar", async () => {
+			vi.spyOn(displayMode, "getDisplayMode").mockResolvedValue("popup");
+			const setDisplayMode = vi
+				.spyOn(displayMode, "setDisplayMode")
+				.mockResolvedValue();
+
+			await toggleDisplayModeAction().action();
+
+			expect(setDisplayMode).toHaveBeenCalledWith("sidebar");
+		});
+
+		it("opens the sidebar for the tab", async () => {
+			await openSidebarAction().action({
+				tab: { id: 5 } as chrome.tabs.Tab,
+				window: {} as chrome.windows.Window,
+			});
+
+			expect(mockChrome.sidePanel.open).toHaveBeenCalledWith({
+				tabId: 5,
+			});
+		});
+
+		it("enables the panel for the tab first in popup mode", async () => {
+			mockChrome.sidePanel.setOptions.mockResolvedValue(undefined);
+			await openSidebarAction().action({
+				tab: { id: 5 } as chrome.tabs.Tab,
+				window: {} as chrome.windows.Window,
+			});
+
+			expect(mockChrome.sidePanel.setOptions).toHaveBeenCalledWith({
+				tabId: 5,
+				enabled: true,
+				path: "src/sidebar/index.html",
+			});
+			expect(
+				mockChrome.sidePanel.setOptions.mock.invocationCallOrder[0]
+			).toBeLessThan(mockChrome.sidePanel.open.mock.invocationCallOrder[0]);
+		});
+
+		it("reports when the sidebar cannot be opened", async () => {
+			vi.spyOn(console, "error").mockImplementation(() => {});
+			const notify = vi
+				.spyOn(browserUtils, "showNotification")
+				.mockResolvedValue("");
+			mockChrome.sidePanel.open.mockRejectedValueOnce(
+				new Error("No active side panel for tabId: 5")
+			);
+
+			await openSidebarAction().action({
+				tab: { id: 5 } as chrome.tabs.Tab,
+				window: {} as chrome.windows.Window,
+			});
+
+			expect(notify).toHaveBeenCalledWith(
+				"Open Sidebar",
+				"The sidebar could not be opened.",
+				true
+			);
+		});
+	});
+});
@@ -6,21 +6,39 @@ const mockChrome = {
 	contextMenus: {
 		removeAll: vi.fn((callback) => callback?.()),
 		create: vi.fn(),
+		update: vi.fn(),
+		remove: vi.fn(),
 		onClicked: {
 			addListener: vi.fn(),
 		},
 	},
 	tabs: {
 		query: vi.fn(() => [{ id: 1 }]),
+		get: vi.fn(),
+		onActivated: {
+			addListener: vi.fn(),
+		},
+		onUpdated: {
+			addListener: vi.fn(),
+		},
 	},
 	windows: {
+		get: vi.fn((id: number) => ({ id })),
 		getCurrent: vi.fn(() => ({ id: 1 })),
 	},
 	runtime: {
 		lastError: null,
 	},
+	storage: {
+		onChanged: {
+			addListener: vi.fn(),
+		},
+	},
 };
 
+// Let pending checked state lookups settle
+const flush = () => new Promise((resolve) => setTimeout(resolve));
+
 describe("ContextMenu", () => {
 	let contextMenu: ContextMenu;
 	let mockMenuItem: ContextMenuItem;
@@ -165,6 +183,26 @@ describe("ContextMenu", () => {
 			expect(contextMenu.getItems()).toHaveLength(0);
 		});
 
+		it("removes only the item with the same ID", () => {
+			contextMenu.mutateContext("add", {
+				title: "Clean Copy URL",
+				action: { ...mockMenuItem, id: "clean-copy-plain" },
+			});
+			contextMenu.mutateContext("add", {
+				title: "Clean Copy URLs Only (one per line)",
+				action: { ...mockMenuItem, id: "bulk-clean-list" },
+			});
+
+			contextMenu.mutateContext("remove", {
+				title: "Clean Copy URL",
+				action: { ...mockMenuItem, id: "clean-copy-plain" },
+			});
+
+			expect(contextMenu.getItems().map(({ id }) => id)).toEqual([
+				"bulk-clean-list",
+			]);
+		});
+
 		it("returns the instance for chaining", () => {
 			const mockMutateItem = {
 				title: "Mutate Test",
@@ -238,14 +276,65 @@ describe("ContextMenu", () => {
 			consoleSpy.mockRestore();
 		});
 
-		it("handles context menu clicks by calling the correct action", () => {
-			// This test is complex due to private map, skipping for now
-			expect(true).toBe(true);
+		it("passes the clicked tab and click data to the action", async () => {
+			const onClicked = vi.mocked(mockChrome.contextMenus.onClicked)
+				.addListener.mock.calls[0][0];
+			contextMenu.addItem(mockMenuItem).addToChrome();
+			const tab = { id: 7, windowId: 2 } as chrome.tabs.Tab;
+
+			await onClicked(
+				{
+					menuItemId: "menu-item-0",
+					frameId: 4,
+					pageUrl: "https://example.com/",
+					frameUrl: "https://example.com/frame",
+					srcUrl: "https://example.com/image.png",
+					mediaType: "image",
+					editable: false,
+				},
+				tab
+			);
+
+			expect(mockChrome.tabs.query).not.toHaveBeenCalled();
+			expect(mockChrome.windows.get).toHaveBeenCalledWith(2);
+			expect(mockMenuItem.action).toHaveBeenCalledWith({
+				tab,
+				window: { id: 2 },
+				frameId: 4,
+				pageUrl: "https://example.com/",
+				frameUrl: "https://example.com/frame",
+				linkUrl: undefined,
+				srcUrl: "https://example.com/image.png",
+				mediaType: "image",
+				selectionText: undefined,
+				editable: false,
+			});
 		});
 
-		it("ignores clicks on unknown menu items", () => {
-			// This test is complex due to private map, skipping for now
-			expect(true).toBe(true);
+		it("falls back to the active tab for clicks outside of tabs", async () => {
+			const onClicked = vi.mocked(mockChrome.contextMenus.onClicked)
+				.addListener.mock.calls[0][0];
+			contextMenu.addItem(mockMenuItem).addToChrome();
+
+			await onClicked({ menuItemId: "menu-item-0", selectionText: "x" });
+
+			expect(mockMenuItem.action).toHaveBeenCalledWith(
+				expect.objectContaining({
+					tab: { id: 1 },
+					window: { id: 1 },
+					selectionText: "x",
+				})
+			);
+		});
+
+		it("ignores clicks on unknown menu items", async () => {
+			const onClicked = vi.mocked(mockChrome.contextMenus.onClicked)
+				.addListener.mock.calls[0][0];
+			contextMenu.addItem(mockMenuItem).addToChrome();
+
+			await onClicked({ menuItemId: "unknown" });
+
+			expect(mockMenuItem.action).not.toHaveBeenCalled();
 		});
 	});
 
@@ -273,4 +362,530 @@ describe("ContextMenu", () => {
 			expect(mockChrome.contextMenus.create).not.toHaveBeenCalled();
 		});
 	});
+
+	describe("menu trees", () => {
+		const binding = (checked: boolean) => ({
+			storageKey: "settings",
+			isChecked: vi.fn(async () => checked),
+			setChecked: vi.fn(async () => {}),
+		});
+
+		it("creates submenu items under their parent", () => {
+			const parent: ContextMenuItem = {
+				title: "Parent",
+				contexts: ["page"],
+			};
+			contextMenu
+				.addItem(parent)
+				.addItem({ title: "Child" }, parent)
+				.addSeparator(parent)
+				.addItem({ title: "Link", contexts: ["link"] }, parent);
+			contextMenu.addToChrome();
+
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledWith({
+				id: "menu-item-0-0",
+				parentId: "menu-item-0",
+				title: "Child",
+				contexts: ["page"],
+				type: "normal",
+			});
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					id: "menu-item-0-1",
+					type: "separator",
+				})
+			);
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					id: "menu-item-0-2",
+					contexts: ["link"],
+				})
+			);
+		});
+
+		it("passes the enabled and visible flags", () => {
+			contextMenu.addItem({ title: "Off", enabled: false, visible: false });
+			contextMenu.addToChrome();
+
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledWith(
+				expect.objectContaining({ enabled: false, visible: false })
+			);
+		});
+
+		it("sets the stored checked state of checkbox and radio items", async () => {
+			const parent: ContextMenuItem = {
+				title: "Mode",
+				children: [
+					{ title: "A", type: "radio", checked: binding(false) },
+					{ title: "B", type: "radio", checked: binding(true) },
+				],
+			};
+			contextMenu.addItem(parent).addToChrome();
+			await flush();
+
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith(
+				"menu-item-0-0",
+				{ checked: false },
+				expect.any(Function)
+			);
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith(
+				"menu-item-0-1",
+				{ checked: true },
+				expect.any(Function)
+			);
+		});
+
+		it("stores the checked state when an item is clicked", async () => {
+			const checked = binding(false);
+			const action = vi.fn();
+			contextMenu
+				.addItem({ title: "Option", type: "checkbox", checked, action })
+				.addToChrome();
+
+			const onClicked = vi.mocked(mockChrome.contextMenus.onClicked)
+				.addListener.mock.calls[0][0];
+			await onClicked({ menuItemId: "menu-item-0", checked: true });
+
+			expect(checked.setChecked).toHaveBeenCalledWith(true);
+			expect(action).toHaveBeenCalled();
+		});
+
+		it("refreshes checked items when their storage key changes", async () => {
+			const checked = binding(true);
+			contextMenu
+				.addItem({ title: "Option", type: "checkbox", checked })
+				.addToChrome();
+			await flush();
+			mockChrome.contextMenus.update.mockClear();
+
+			const onChanged = vi.mocked(mockChrome.storage.onChanged).addListener
+				.mock.calls[0][0];
+			onChanged({ other: {} });
+			await flush();
+			expect(mockChrome.contextMenus.update).not.toHaveBeenCalled();
+
+			onChanged({ settings: {} });
+			await flush();
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith(
+				"menu-item-0",
+				{ checked: true },
+				expect.any(Function)
+			);
+		});
+
+		it("removes nested items", () => {
+			const child: ContextMenuItem = { title: "Child" };
+			const parent: ContextMenuItem = { title: "Parent" };
+			contextMenu.addItem(parent).addItem(child, parent);
+
+			contextMenu.removeItem(child);
+
+			expect(contextMenu.getItems()).toEqual([parent]);
+			expect(parent.children).toEqual([]);
+		});
+	});
+
+	describe("stable IDs", () => {
+		const item = (id: string, title = id): ContextMenuItem => ({
+			id,
+			title,
+			action: vi.fn(),
+		});
+
+		let onClicked: (info: Partial<chrome.contextMenus.OnClickData>) => unknown;
+
+		beforeEach(() => {
+			onClicked = vi.mocked(mockChrome.contextMenus.onClicked).addListener
+				.mock.calls[0][0];
+			contextMenu.addItem(item("a")).addItem(item("b")).addToChrome();
+			vi.clearAllMocks();
+		});
+
+		it("creates items with their own IDs", () => {
+			contextMenu.addItem(item("c")).addToChrome();
+
+			expect(mockChrome.contextMenus.removeAll).not.toHaveBeenCalled();
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledTimes(1);
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledWith(
+				expect.objectContaining({ id: "c" })
+			);
+		});
+
+		it("does nothing when the menu did not change", () => {
+			contextMenu.addToChrome();
+
+			expect(mockChrome.contextMenus.removeAll).not.toHaveBeenCalled();
+			expect(mockChrome.contextMenus.create).not.toHaveBeenCalled();
+			expect(mockChrome.contextMenus.update).not.toHaveBeenCalled();
+			expect(mockChrome.contextMenus.remove).not.toHaveBeenCalled();
+		});
+
+		it("updates changed items in place", () => {
+			contextMenu.update("b", { title: "Renamed", enabled: false });
+
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith("b", {
+				title: "Renamed",
+				contexts: ["all"],
+				type: "normal",
+				enabled: false,
+				visible: true,
+			});
+			expect(mockChrome.contextMenus.create).not.toHaveBeenCalled();
+		});
+
+		it("warns about unknown IDs", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+			contextMenu.update("missing", { title: "Missing" });
+
+			expect(warn).toHaveBeenCalledWith(
+				"[ContextMenu] Unknown menu item:",
+				"missing"
+			);
+			expect(mockChrome.contextMenus.update).not.toHaveBeenCalled();
+		});
+
+		it("removes items by ID", () => {
+			contextMenu.removeById("a");
+
+			expect(mockChrome.contextMenus.remove).toHaveBeenCalledWith("a");
+			expect(contextMenu.getItems().map((i) => i.id)).toEqual(["b"]);
+		});
+
+		it("removes a submenu with its parent", () => {
+			const parent = item("parent");
+			contextMenu
+				.addItem(parent)
+				.addItem(item("child"), parent)
+				.addToChrome();
+			contextMenu.removeById("parent");
+
+			expect(mockChrome.contextMenus.remove).toHaveBeenCalledTimes(1);
+			expect(mockChrome.contextMenus.remove).toHaveBeenCalledWith("parent");
+		});
+
+		it("rebuilds the menu when items are inserted before others", () => {
+			contextMenu.removeItem(contextMenu.getItems()[1]);
+			contextMenu.addItem(item("c")).addItem(item("b")).addToChrome();
+
+			expect(mockChrome.contextMenus.removeAll).toHaveBeenCalled();
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledTimes(3);
+		});
+
+		it("routes clicks by ID after changes", async () => {
+			const [first, second] = contextMenu.getItems();
+			contextMenu.removeById("a");
+
+			await onClicked({ menuItemId: "a" });
+			await onClicked({ menuItemId: "b" });
+
+			expect(first.action).not.toHaveBeenCalled();
+			expect(second.action).toHaveBeenCalled();
+		});
+
+		it("replaces siblings with the same ID", () => {
+			contextMenu.addItem(item("a", "Again")).addToChrome();
+
+			expect(contextMenu.getItems().map((i) => i.title)).toEqual([
+				"Again",
+				"b",
+			]);
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith(
+				"a",
+				expect.objectContaining({ title: "Again" })
+			);
+		});
+
+		it("warns about duplicate IDs in different submenus", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+			const parent = item("parent");
+			contextMenu
+				.addItem(parent)
+				.addItem(item("a", "Nested"), parent)
+				.addToChrome();
+
+			expect(warn).toHaveBeenCalledWith(
+				"[ContextMenu] Duplicate menu item ID:",
+				"a"
+			);
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("registry", () => {
+		// A fresh module graph stands in for a restarted service worker
+		const startWorker = async () => {
+			vi.resetModules();
+			const module = await import("../utils/contextMenu");
+			const calls = vi.mocked(mockChrome.contextMenus.onClicked)
+				.addListener.mock.calls;
+			return {
+				menu: module.contextMenu,
+				click: calls[calls.length - 1][0] as (
+					info: Partial<chrome.contextMenus.OnClickData>
+				) => Promise<void>,
+			};
+		};
+
+		const register =
+			(action: ContextMenuItem["action"]) => (menu: ContextMenu) => {
+				menu.addItem({ id: "copy", title: "Copy", action });
+			};
+
+		beforeEach(() => {
+			vi.clearAllMocks();
+		});
+
+		it("registers the click listener when the module loads", async () => {
+			await startWorker();
+			expect(
+				mockChrome.contextMenus.onClicked.addListener
+			).toHaveBeenCalledTimes(1);
+		});
+
+		it("routes clicks that arrive before the items are registered", async () => {
+			const { menu, click } = await startWorker();
+			const action = vi.fn();
+			let release = () => {};
+			const registered = new Promise<void>((resolve) => {
+				release = resolve;
+			});
+			menu.load(async (m) => {
+				await registered;
+				register(action)(m);
+			});
+
+			const clicked = click({ menuItemId: "copy" });
+			await flush();
+			expect(action).not.toHaveBeenCalled();
+
+			release();
+			await clicked;
+			expect(action).toHaveBeenCalledTimes(1);
+		});
+
+		it("dedupes items registered again", async () => {
+			const { menu } = await startWorker();
+			await menu.load(register(vi.fn()));
+			await menu.load(register(vi.fn()));
+
+			expect(menu.getItems()).toHaveLength(1);
+			expect(
+				mockChrome.contextMenus.onClicked.addListener
+			).toHaveBeenCalledTimes(1);
+		});
+
+		it("routes clicks after a restart without recreating the menu", async () => {
+			const first = await startWorker();
+			await first.menu.load(register(vi.fn()));
+			first.menu.addToChrome();
+			vi.clearAllMocks();
+
+			const action = vi.fn();
+			const second = await startWorker();
+			second.menu.load(register(action));
+			await second.click({ menuItemId: "copy" });
+
+			expect(action).toHaveBeenCalledTimes(1);
+			expect(mockChrome.contextMenus.removeAll).not.toHaveBeenCalled();
+			expect(mockChrome.contextMenus.create).not.toHaveBeenCalled();
+		});
+
+		it("keeps routing when registering items fails", async () => {
+			const error = vi.spyOn(console, "error").mockImplementation(() => {});
+			const { menu, click } = await startWorker();
+			const action = vi.fn();
+			await menu.load(register(action));
+			menu.load(() => {
+				throw new Error("storage unavailable");
+			});
+
+			await click({ menuItemId: "copy" });
+
+			expect(error).toHaveBeenCalledWith(
+				"[ContextMenu] Failed to register items:",
+				expect.any(Error)
+			);
+			expect(action).toHaveBeenCalled();
+		});
+	});
+
+	describe("conditional visibility", () => {
+		const github = { id: 1, url: "https://github.com/a/b" };
+		const other = { id: 2, url: "https://example.com/" };
+		const onGitHub = (tab: chrome.tabs.Tab) =>
+			tab.url?.startsWith("https://github.com/") ?? false;
+
+		const listener = (event: { addListener: unknown }) =>
+			vi.mocked(event.addListener as (...args: any[]) => void).mock
+				.calls[0][0];
+
+		beforeEach(() => {
+			mockChrome.tabs.query.mockReturnValue([github]);
+		});
+
+		afterEach(() => {
+			mockChrome.tabs.query.mockReturnValue([{ id: 1 }]);
+		});
+
+		it("passes URL patterns to Chrome", () => {
+			contextMenu
+				.addItem({
+					id: "links",
+					title: "Links",
+					documentUrlPatterns: ["https://*/*"],
+					targetUrlPatterns: ["https://*/*?*utm_*"],
+				})
+				.addToChrome();
+
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					documentUrlPatterns: ["https://*/*"],
+					targetUrlPatterns: ["https://*/*?*utm_*"],
+				})
+			);
+		});
+
+		it("checks predicates against the active tab when added", async () => {
+			contextMenu
+				.addItem({ id: "gh", title: "GitHub", when: onGitHub })
+				.addItem({ id: "never", title: "Never", when: () => false })
+				.addToChrome();
+			await flush();
+
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith(
+				"never",
+				expect.objectContaining({ visible: false })
+			);
+			expect(mockChrome.contextMenus.update).not.toHaveBeenCalledWith(
+				"gh",
+				expect.anything()
+			);
+		});
+
+		it("toggles items when another tab is activated", async () => {
+			contextMenu
+				.addItem({ id: "gh", title: "GitHub", when: onGitHub })
+				.addToChrome();
+			await flush();
+			mockChrome.contextMenus.update.mockClear();
+
+			mockChrome.tabs.get.mockResolvedValue(other);
+			await listener(mockChrome.tabs.onActivated)({ tabId: 2 });
+
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith(
+				"gh",
+				expect.objectContaining({ visible: false })
+			);
+		});
+
+		it("re-evaluates when the active tab navigates", async () => {
+			contextMenu
+				.addItem({ id: "gh", title: "GitHub", when: onGitHub })
+				.addToChrome();
+			await flush();
+			mockChrome.contextMenus.update.mockClear();
+			const onUpdated = listener(mockChrome.tabs.onUpdated);
+
+			await onUpdated(2, { url: other.url }, { ...other, active: false });
+			expect(mockChrome.contextMenus.update).not.toHaveBeenCalled();
+
+			await onUpdated(1, { url: other.url }, { ...other, active: true });
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith(
+				"gh",
+				expect.objectContaining({ visible: false })
+			);
+		});
+
+		it("keeps items hidden by their flag", async () => {
+			contextMenu
+				.addItem({ id: "off", title: "Off", visible: false, when: onGitHub })
+				.addToChrome();
+			await flush();
+
+			expect(mockChrome.contextMenus.create).toHaveBeenCalledWith(
+				expect.objectContaining({ id: "off", visible: false })
+			);
+			expect(mockChrome.contextMenus.update).not.toHaveBeenCalled();
+		});
+
+		it("hides items whose predicate fails", async () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+			contextMenu
+				.addItem({
+					id: "broken",
+					title: "Broken",
+					when: () => {
+						throw new Error("boom");
+					},
+				})
+				.addToChrome();
+			await flush();
+
+			expect(warn).toHaveBeenCalledWith(
+				"[ContextMenu] Visibility check failed:",
+				"broken",
+				expect.any(Error)
+			);
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith(
+				"broken",
+				expect.objectContaining({ visible: false })
+			);
+		});
+
+		it("updates the items of a previous worker", async () => {
+			await contextMenu.load((menu) => {
+				menu.addItem({ id: "gh", title: "GitHub", when: onGitHub });
+			});
+
+			await contextMenu.refreshVisibility(other as chrome.tabs.Tab);
+
+			expect(mockChrome.contextMenus.removeAll).not.toHaveBeenCalled();
+			expect(mockChrome.contextMenus.update).toHaveBeenCalledWith(
+				"gh",
+				{ visible: false },
+				expect.any(Function)
+			);
+		});
+
+		it("reads the error for items that are not in Chrome yet", async () => {
+			const debug = vi.spyOn(console, "debug").mockImplementation(() => {});
+			mockChrome.contextMenus.update.mockImplementationOnce(
+				(_id, _properties, callback) => {
+					mockChrome.runtime.lastError = {
+						message: "Cannot find menu item with id gh",
+					} as never;
+					callback();
+					mockChrome.runtime.lastError = null;
+				}
+			);
+			await contextMenu.load((menu) => {
+				menu.addItem({ id: "gh", title: "GitHub", when: onGitHub });
+			});
+
+			await contextMenu.refreshVisibility(other as chrome.tabs.Tab);
+
+			expect(debug).toHaveBeenCalledWith(
+				"[ContextMenu] Item not in Chrome:",
+				"gh",
+				expect.objectContaining({ message: expect.any(String) })
+			);
+		});
+
+		it("ignores tabs that closed before they were looked up", async () => {
+			vi.spyOn(console, "debug").mockImplementation(() => {});
+			contextMenu
+				.addItem({ id: "gh", title: "GitHub", when: onGitHub })
+				.addToChrome();
+			await flush();
+			mockChrome.contextMenus.update.mockClear();
+
+			mockChrome.tabs.get.mockRejectedValueOnce(
+				new Error("No tab with id: 2")
+			);
+			await expect(
+				listener(mockChrome.tabs.onActivated)({ tabId: 2 })
+			).resolves.toBeUndefined();
+			expect(mockChrome.contextMenus.update).not.toHaveBeenCalled();
+		});
+	});
 });
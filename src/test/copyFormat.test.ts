@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+	BUILT_IN_COPY_FORMATS,
+	createCopyFormatContext,
+	renderCopyFormat,
+	renderTemplate,
+	type CopyFormatContext,
+} from "../logic/copyFormat";
+
+const context: CopyFormatContext = {
+	url: "https://example.com/page",
+	title: "Example <Page> [draft]",
+	host: "example.com",
+	selection: "some text",
+	date: "2025-01-31",
+};
+
+const builtIn = (id: string) => {
+	const format = BUILT_IN_COPY_FORMATS.find((format) => format.id === id);
+	if (!format) throw new Error(`Missing built-in format: ${id}`);
+	return format;
+};
+
+describe("renderTemplate", () => {
+	it("replaces all placeholders", () => {
+		const result = renderTemplate(
+			"{title}|{url}|{host}|{selection}|{date}",
+			context
+		);
+		expect(result).toBe(
+			"Example <Page> [draft]|https://example.com/page|example.com|some text|2025-01-31"
+		);
+	});
+
+	it("leaves unknown placeholders untouched", () => {
+		expect(renderTemplate("{url} {unknown}", context)).toBe(
+			"https://example.com/page {unknown}"
+		);
+	});
+
+	it("escapes values for HTML", () => {
+		expect(renderTemplate("{title}", context, "html")).toBe(
+			"Example &lt;Page&gt; [draft]"
+		);
+	});
+
+	it("escapes values for Markdown", () => {
+		expect(renderTemplate("{title}", context, "markdown")).toBe(
+			"Example <Page> \\[draft\\]"
+		);
+	});
+});
+
+describe("renderCopyFormat", () => {
+	it("renders the plain format as the bare URL", () => {
+		expect(renderCopyFormat(builtIn("plain"), context)).toEqual({
+			text: "https://example.com/page",
+		});
+	});
+
+	it("renders Markdown links", () => {
+		expect(renderCopyFormat(builtIn("markdown"), context).text).toBe(
+			"[Example <Page> \\[draft\\]](https://example.com/page)"
+		);
+	});
+
+	it("renders HTML anchors", () => {
+		expect(renderCopyFormat(builtIn("html"), context).text).toBe(
+			'<a href="https://example.com/page">Example &lt;Page&gt; [draft]</a>'
+		);
+	});
+
+	it("renders org-mode links", () => {
+		expect(renderCopyFormat(builtIn("org"), context).text).toBe(
+			"[[https://example.com/page][Example <Page> [draft]]]"
+		);
+	});
+
+	it("renders both text and HTML for rich formats", () => {
+		expect(renderCopyFormat(builtIn("rich"), context)).toEqual({
+			text: "Example <Page> [draft] (https://example.com/page)",
+			html: '<a href="https://example.com/page">Example &lt;Page&gt; [draft]</a>',
+		});
+	});
+
+	it("renders custom templates", () => {
+		const format = {
+			id: "custom-1",
+			name: "Ticket",
+			template: "{date} {host}: {url}",
+		};
+		expect(renderCopyFormat(format, context)).toEqual({
+			text: "2025-01-31 example.com: https://example.com/page",
+		});
+	});
+});
+
+describe("createCopyFormatContext", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("builds the context from the URL and tab data", () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-03-04T12:00:00Z"));
+
+		expect(
+			createCopyFormatContext("https://example.com:8080/a", {
+				title: "Title",
+				selection: "text",
+			})
+		).toEqual({
+			url: "https://example.com:8080/a",
+			title: "Title",
+			host: "example.com:8080",
+			selection: "text",
+			date: "2025-03-04",
+		});
+	});
+
+	it("falls back to the URL when there is no title", () => {
+		const result = createCopyFormatContext("https://example.com/");
+		expect(result.title).toBe("https://example.com/");
+		expect(result.selection).toBe("");
+	});
+});
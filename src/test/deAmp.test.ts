@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { cleanUrl, describeCleanResult } from "../logic/cleanCopyUrl";
+import { bulkCleanText } from "../logic/bulkClean";
+import {
+	formatMobileHosts,
+	parseMobileHosts,
+	resolveAmpUrl,
+	toDesktopUrl,
+} from "../logic/deAmp";
+
+describe("resolveAmpUrl", () => {
+	it("resolves Google AMP viewer links", () => {
+		expect(
+			resolveAmpUrl("https://www.google.com/amp/s/example.com/news/story")
+		).toBe("https://example.com/news/story");
+		expect(
+			resolveAmpUrl("https://www.google.co.uk/amp/example.com/story")
+		).toBe("http://example.com/story");
+	});
+
+	it("resolves AMP cache links and drops cache parameters", () => {
+		expect(
+			resolveAmpUrl(
+				"https://example-com.cdn.ampproject.org/c/s/example.com/story?id=1&usqp=mq331AQ&amp_js_v=0.1"
+			)
+		).toBe("https://example.com/story?id=1");
+	});
+
+	it("removes AMP path suffixes and parameters of publishers", () => {
+		const publishers = ["*.example.com"];
+		expect(
+			resolveAmpUrl("https://example.com/news/story/amp/", publishers)
+		).toBe("https://example.com/news/story/");
+		expect(
+			resolveAmpUrl("https://www.example.com/news/story/amp", publishers)
+		).toBe("https://www.example.com/news/story");
+		expect(
+			resolveAmpUrl("https://example.com/news/story.amp", publishers)
+		).toBe("https://example.com/news/story");
+		expect(
+			resolveAmpUrl("https://example.com/story?amp=1&id=2", publishers)
+		).toBe("https://example.com/story?id=2");
+		expect(resolveAmpUrl("https://www.bbc.co.uk/news/world-1.amp")).toBe(
+			"https://www.bbc.co.uk/news/world-1"
+		);
+	});
+
+	it("leaves AMP markers on other sites alone", () => {
+		for (const url of [
+			"https://www.npmjs.com/package/amp",
+			"https://github.com/foo/amp",
+			"https://example.com/docs/file.amp",
+			"https://example.com/search?amp=1",
+		]) {
+			expect(resolveAmpUrl(url)).toBe(url);
+		}
+	});
+
+	it("strips the suffix of a resolved cache link", () => {
+		expect(
+			resolveAmpUrl("https://www.google.com/amp/s/example.com/story/amp")
+		).toBe("https://example.com/story");
+	});
+
+	it("leaves other URLs unchanged", () => {
+		const url = "https://example.com/amplifier?page=2";
+		expect(resolveAmpUrl(url)).toBe(url);
+		expect(resolveAmpUrl("https://www.google.com/search?q=amp")).toBe(
+			"https://www.google.com/search?q=amp"
+		);
+	});
+});
+
+describe("toDesktopUrl", () => {
+	it("rewrites mobile hosts and keeps subdomains", () => {
+		expect(toDesktopUrl("https://en.m.wikipedia.org/wiki/AMP")).toBe(
+			"https://en.wikipedia.org/wiki/AMP"
+		);
+		expect(toDesktopUrl("https://mobile.twitter.com/user/status/1")).toBe(
+			"https://twitter.com/user/status/1"
+		);
+		expect(toDesktopUrl("https://m.youtube.com/watch?v=abc")).toBe(
+			"https://www.youtube.com/watch?v=abc"
+		);
+	});
+
+	it("only matches whole host labels", () => {
+		const url = "https://adam.wikipedia.org/";
+		expect(toDesktopUrl(url)).toBe(url);
+	});
+
+	it("uses the given mapping table", () => {
+		const mappings = [{ from: "m.example.com", to: "www.example.com" }];
+		expect(toDesktopUrl("https://m.example.com/a", mappings)).toBe(
+			"https://www.example.com/a"
+		);
+		expect(toDesktopUrl("https://en.m.wikipedia.org/", mappings)).toBe(
+			"https://en.m.wikipedia.org/"
+		);
+	});
+});
+
+describe("parseMobileHosts", () => {
+	it("parses one mapping per line and skips invalid lines", () => {
+		expect(
+			parseMobileHosts("m.example.com = example.com\n\nbroken\n = x.com")
+		).toEqual([{ from: "m.example.com", to: "example.com" }]);
+	});
+
+	it("round-trips with formatMobileHosts", () => {
+		const mappings = [
+			{ from: "m.a.com", to: "a.com" },
+			{ from: "mobile.b.com", to: "www.b.com" },
+		];
+		expect(parseMobileHosts(formatMobileHosts(mappings))).toEqual(mappings);
+	});
+});
+
+describe("de-AMP step", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "debug").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("cleans AMP links to the desktop URL", () => {
+		const result = cleanUrl(
+			"https://www.google.com/amp/s/en.m.wikipedia.org/wiki/AMP?utm_source=x",
+			{ mode: "balanced" }
+		);
+
+		expect(result.output).toBe("https://en.wikipedia.org/wiki/AMP");
+		expect(result.rules).toEqual(
+			expect.arrayContaining(["AMP page", "Mobile site"])
+		);
+		expect(describeCleanResult(result)).toBe(
+			"Replaced an AMP link, switched to the desktop site, removed 1 tracking parameter."
+		);
+	});
+
+	it("can be disabled", () => {
+		const url = "https://m.youtube.com/watch?v=abc";
+		expect(
+			cleanUrl(url, {
+				mode: "balanced",
+				transformers: [{ id: "de-amp", enabled: false }],
+			}).output
+		).toBe(url);
+	});
+
+	it("applies to bulk copies", () => {
+		const result = bulkCleanText(
+			"See https://example-com.cdn.ampproject.org/c/s/example.com/a and https://m.reddit.com/r/test",
+			"list"
+		);
+		expect(result.text).toBe(
+			"https://example.com/a\nhttps://www.reddit.com/r/test"
+		);
+	});
+});
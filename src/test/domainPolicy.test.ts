@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	hasDomainPolicy,
+	matchesDomainPolicy,
+	DOMAIN_POLICIES_STORAGE_KEY,
+	type DomainPolicy,
+} from "../logic/domainPolicy";
+import { cleanUrl, describeCleanResult } from "../logic/cleanCopyUrl";
+import { showNotification } from "../utils/browser";
+
+const policies: DomainPolicy[] = [
+	{ host: "*.intranet.example.com", action: "skip-clean" },
+	{ host: "shop.example.*", pathPrefix: "/checkout", action: "strict" },
+	{ host: "news.example.org", action: "mute-notifications" },
+];
+
+describe("matchesDomainPolicy", () => {
+	it("matches wildcard host patterns", () => {
+		const policy = policies[0];
+		expect(
+			matchesDomainPolicy("https://intranet.example.com/a", policy)
+		).toBe(true);
+		expect(
+			matchesDomainPolicy("https://wiki.intranet.example.com/a", policy)
+		).toBe(true);
+		expect(matchesDomainPolicy("https://example.com/a", policy)).toBe(
+			false
+		);
+	});
+
+	it("matches path prefixes", () => {
+		const policy = policies[1];
+		expect(
+			matchesDomainPolicy("https://shop.example.de/checkout/1", policy)
+		).toBe(true);
+		expect(matchesDomainPolicy("https://shop.example.de/cart", policy)).toBe(
+			false
+		);
+	});
+
+	it("ignores invalid URLs and empty hosts", () => {
+		expect(matchesDomainPolicy("not a url", policies[0])).toBe(false);
+		expect(
+			matchesDomainPolicy("https://example.com/", {
+				host: "",
+				action: "strict",
+			})
+		).toBe(false);
+	});
+});
+
+describe("hasDomainPolicy", () => {
+	it("only considers policies with the given action", () => {
+		const url = "https://news.example.org/story";
+		expect(hasDomainPolicy(url, policies, "mute-notifications")).toBe(true);
+		expect(hasDomainPolicy(url, policies, "skip-clean")).toBe(false);
+	});
+});
+
+describe("cleanUrl with domain policies", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "debug").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("skips cleaning on never-clean hosts", () => {
+		const url =
+			"https://tools.intranet.example.com/app?session=abc&utm_source=x";
+		const result = cleanUrl(url, { mode: "balanced", policies });
+
+		expect(result.status).toBe("skipped");
+		expect(result.output).toBe(url);
+		expect(describeCleanResult(result)).toBe(
+			"Cleaning is disabled for this site, the URL was copied as is."
+		);
+	});
+
+	it("applies policies to the destination of wrapped links", () => {
+		const target = "https://intranet.example.com/app?session=abc";
+		const safeLink = `https://eur01.safelinks.protection.outlook.com/?url=${encodeURIComponent(
+			target
+		)}&data=xyz`;
+		const result = cleanUrl(safeLink, { mode: "balanced", policies });
+
+		expect(result.status).toBe("skipped");
+		expect(result.output).toBe(target);
+
+		const google = `https://www.google.com/url?q=${encodeURIComponent(
+			"https://shop.example.com/checkout?step=2"
+		)}`;
+		expect(cleanUrl(google, { mode: "balanced", policies }).output).toBe(
+			"https://shop.example.com/checkout"
+		);
+	});
+
+	it("forces strict mode on strict paths", () => {
+		expect(
+			cleanUrl("https://shop.example.com/checkout?step=2", {
+				mode: "balanced",
+				policies,
+			}).output
+		).toBe("https://shop.example.com/checkout");
+		expect(
+			cleanUrl("https://shop.example.com/search?q=2", {
+				mode: "balanced",
+				policies,
+			}).output
+		).toBe("https://shop.example.com/search?q=2");
+	});
+});
+
+describe("showNotification with domain policies", () => {
+	const notifications = {
+		create: vi.fn(),
+		getPermissionLevel: vi.fn(),
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		Object.assign(chrome, { notifications });
+		Object.assign(chrome.runtime, { getURL: vi.fn((path) => path) });
+		vi.mocked(chrome.storage.sync.get).mockResolvedValue({
+			[DOMAIN_POLICIES_STORAGE_KEY]: policies,
+		} as never);
+	});
+
+	it("suppresses notifications about muted sites", async () => {
+		await showNotification(
+			"Tab Updated",
+			"You have opened a page",
+			false,
+			"https://news.example.org/story"
+		);
+		expect(notifications.create).not.toHaveBeenCalled();
+	});
+
+	it("shows notifications about other sites", async () => {
+		await showNotification(
+			"Tab Updated",
+			"You have opened a page",
+			false,
+			"https://example.com/"
+		);
+		expect(notifications.create).toHaveBeenCalled();
+	});
+
+	it("always shows forced notifications", async () => {
+		await showNotification(
+			"Clean Copy URL",
+			"Error",
+			true,
+			"https://news.example.org/story"
+		);
+		expect(notifications.create).toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import { cleanCopyUrl } from "../logic/cleanCopyUrl";
+import {
+	BUILT_IN_DOMAIN_RULES,
+	canonicalizePath,
+	findDomainRules,
+	getSiteDomain,
+	matchesHostPattern,
+	matchesParamPattern,
+	type DomainRule,
+} from "../logic/domainRules";
+
+describe("matchesHostPattern", () => {
+	it("matches exact hosts", () => {
+		expect(matchesHostPattern("youtu.be", "youtu.be")).toBe(true);
+		expect(matchesHostPattern("www.youtu.be", "youtu.be")).toBe(false);
+	});
+
+	it("matches the bare domain and subdomains for *. patterns", () => {
+		expect(matchesHostPattern("youtube.com", "*.youtube.com")).toBe(true);
+		expect(matchesHostPattern("m.youtube.com", "*.youtube.com")).toBe(
+			true
+		);
+		expect(matchesHostPattern("notyoutube.com", "*.youtube.com")).toBe(
+			false
+		);
+	});
+
+	it("matches any public suffix for .* patterns", () => {
+		expect(matchesHostPattern("amazon.de", "amazon.*")).toBe(true);
+		expect(matchesHostPattern("amazon.co.uk", "amazon.*")).toBe(true);
+		expect(matchesHostPattern("www.amazon.com", "*.amazon.*")).toBe(true);
+		expect(matchesHostPattern("amazon.evil.example.com", "amazon.*")).toBe(
+			false
+		);
+	});
+
+	it("does not match other domains for .* patterns", () => {
+		expect(matchesHostPattern("amazon.evil.com", "*.amazon.*")).toBe(false);
+		expect(matchesHostPattern("www.amazon.evil.com", "*.amazon.*")).toBe(
+			false
+		);
+		expect(
+			cleanCopyUrl("https://amazon.evil.com/x/dp/B000000000/ref=foo")
+		).toBe("https://amazon.evil.com/x/dp/B000000000/ref=foo");
+	});
+
+	it("is case-insensitive", () => {
+		expect(matchesHostPattern("WWW.Amazon.COM", "*.amazon.*")).toBe(true);
+	});
+});
+
+describe("getSiteDomain", () => {
+	it("strips subdomains", () => {
+		expect(getSiteDomain("www.news.example.com")).toBe("example.com");
+		expect(getSiteDomain("www.orf.at")).toBe("orf.at");
+	});
+
+	it("keeps two-label country suffixes", () => {
+		expect(getSiteDomain("www.bbc.co.uk")).toBe("bbc.co.uk");
+		expect(getSiteDomain("shop.example.com.au")).toBe("example.com.au");
+	});
+
+	it("leaves bare domains untouched", () => {
+		expect(getSiteDomain("Example.COM")).toBe("example.com");
+		expect(getSiteDomain("orf.at")).toBe("orf.at");
+		expect(getSiteDomain("localhost")).toBe("localhost");
+	});
+});
+
+describe("matchesParamPattern", () => {
+	it("matches exact names", () => {
+		expect(matchesParamPattern("si", "si")).toBe(true);
+		expect(matchesParamPattern("sid", "si")).toBe(false);
+	});
+
+	it("matches prefixes ending with *", () => {
+		expect(matchesParamPattern("pd_rd_w", "pd_rd_*")).toBe(true);
+		expect(matchesParamPattern("pf_rd_p", "pd_rd_*")).toBe(false);
+	});
+});
+
+describe("findDomainRules", () => {
+	it("finds built-in rules for a host", () => {
+		const rules = findDomainRules("www.youtube.com");
+		expect(rules.map((rule) => rule.name)).toEqual(["YouTube"]);
+	});
+
+	it("returns no rules for unknown hosts", () => {
+		expect(findDomainRules("example.com")).toEqual([]);
+	});
+
+	it("uses the provided rule set", () => {
+		const custom: DomainRule = {
+			name: "Example",
+			hosts: ["*.example.com"],
+		};
+		expect(findDomainRules("docs.example.com", [custom])).toEqual([
+			custom,
+		]);
+	});
+});
+
+describe("canonicalizePath", () => {
+	it("applies rewrites in order", () => {
+		const rules: DomainRule[] = [
+			{
+				name: "Example",
+				hosts: ["example.com"],
+				rewrites: [
+					{ pattern: "^/old/(.*)$", replacement: "/new/$1" },
+					{ pattern: "^/new/(\\d+)-.*$", replacement: "/new/$1" },
+				],
+			},
+		];
+		expect(canonicalizePath("/old/42-some-slug", rules)).toBe("/new/42");
+	});
+
+	it("leaves non-matching paths untouched", () => {
+		expect(canonicalizePath("/about", BUILT_IN_DOMAIN_RULES)).toBe(
+			"/about"
+		);
+	});
+});
+
+describe("cleanCopyUrl with built-in domain rules", () => {
+	it("canonicalizes Amazon product URLs", () => {
+		const url =
+			"https://www.amazon.com/Some-Product-Name/dp/B08N5WRWNW/ref=sr_1_1?keywords=foo&qid=123&sr=8-1";
+		expect(cleanCopyUrl(url, { mode: "balanced" })).toBe(
+			"https://www.amazon.com/dp/B08N5WRWNW"
+		);
+		expect(cleanCopyUrl(url, { mode: "strict" })).toBe(
+			"https://www.amazon.com/dp/B08N5WRWNW"
+		);
+	});
+
+	it("canonicalizes Amazon gp/product URLs on other TLDs", () => {
+		const url =
+			"https://www.amazon.co.uk/gp/product/B08N5WRWNW/ref=ppx_yo_dt_b_asin_title?ie=UTF8&psc=1";
+		expect(cleanCopyUrl(url, { mode: "balanced" })).toBe(
+			"https://www.amazon.co.uk/dp/B08N5WRWNW?ie=UTF8"
+		);
+	});
+
+	it("keeps Amazon search keywords in strict mode", () => {
+		const url = "https://www.amazon.de/s?k=keyboard&crid=ABC&ref=nb_sb_noss";
+		expect(cleanCopyUrl(url)).toBe("https://www.amazon.de/s?k=keyboard");
+	});
+
+	it("keeps the YouTube video id in strict mode", () => {
+		const url = "https://www.youtube.com/watch?v=dQw4w9WgXcQ&si=abc&t=42";
+		expect(cleanCopyUrl(url)).toBe(
+			"https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42"
+		);
+	});
+
+	it("drops the YouTube share id in balanced mode", () => {
+		const url =
+			"https://www.youtube.com/watch?v=dQw4w9WgXcQ&si=abc&feature=share&pp=xyz";
+		expect(cleanCopyUrl(url, { mode: "balanced" })).toBe(
+			"https://www.youtube.com/watch?v=dQw4w9WgXcQ"
+		);
+	});
+
+	it("drops the share id from youtu.be links", () => {
+		const url = "https://youtu.be/dQw4w9WgXcQ?si=abc123";
+		expect(cleanCopyUrl(url, { mode: "balanced" })).toBe(
+			"https://youtu.be/dQw4w9WgXcQ"
+		);
+		expect(cleanCopyUrl(url, { mode: "strict" })).toBe(
+			"https://youtu.be/dQw4w9WgXcQ"
+		);
+	});
+
+	it("canonicalizes AliExpress item URLs", () => {
+		const url =
+			"https://www.aliexpress.com/item/1005001234567890.html?spm=a2g0o.home.15002&algo_pvid=abc&aff_fcid=x&gatewayAdapt=glo2nld";
+		expect(cleanCopyUrl(url, { mode: "balanced" })).toBe(
+			"https://www.aliexpress.com/item/1005001234567890.html"
+		);
+	});
+
+	it("canonicalizes eBay item URLs", () => {
+		const url =
+			"https://www.ebay.com/itm/Some-Item-Title/123456789012?hash=item1c&_trkparms=abc&_trksid=p1";
+		expect(cleanCopyUrl(url, { mode: "balanced" })).toBe(
+			"https://www.ebay.com/itm/123456789012"
+		);
+	});
+
+	it("drops Twitter share parameters", () => {
+		const url = "https://x.com/user/status/123?s=20&t=abc";
+		expect(cleanCopyUrl(url, { mode: "balanced" })).toBe(
+			"https://x.com/user/status/123"
+		);
+	});
+
+	it("keeps generic functional parameters on hosts with rules", () => {
+		const url = "https://www.reddit.com/r/test/search?q=cats&share_id=abc";
+		expect(cleanCopyUrl(url, { mode: "balanced" })).toBe(
+			"https://www.reddit.com/r/test/search?q=cats"
+		);
+	});
+
+	it("ignores domain rules when an empty rule set is provided", () => {
+		const url = "https://youtu.be/dQw4w9WgXcQ?si=abc123";
+		expect(cleanCopyUrl(url, { mode: "balanced", rules: [] })).toBe(
+			"https://youtu.be/dQw4w9WgXcQ?si=abc123"
+		);
+	});
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	findLinkBySelection,
+	findLinkCandidate,
+	pickBestLink,
+} from "../logic/findLink";
+
+describe("findLinkCandidate", () => {
+	beforeEach(() => {
+		document.body.innerHTML = "";
+		window.getSelection()?.removeAllRanges();
+	});
+
+	it("matches the link text exactly", () => {
+		document.body.innerHTML = `
+			<a href="https://example.com/other">Other</a>
+			<a href="https://example.com/target">Read more</a>
+		`;
+		expect(findLinkCandidate("Read more")).toEqual({
+			href: "https://example.com/target",
+			score: 80,
+		});
+	});
+
+	it("matches the href", () => {
+		document.body.innerHTML = `<a href="https://example.com/a">Link</a>`;
+		expect(findLinkCandidate("https://example.com/a")?.score).toBe(90);
+	});
+
+	it("normalizes whitespace and case", () => {
+		document.body.innerHTML = `
+			<a href="https://example.com/target">Read
+				more</a>
+		`;
+		expect(findLinkCandidate("  read MORE ")?.href).toBe(
+			"https://example.com/target"
+		);
+	});
+
+	it("matches partial link text", () => {
+		document.body.innerHTML = `
+			<a href="https://example.com/long">A very long article title</a>
+		`;
+		expect(findLinkCandidate("long article")?.href).toBe(
+			"https://example.com/long"
+		);
+	});
+
+	it("ranks the closest text match first", () => {
+		document.body.innerHTML = `
+			<a href="https://example.com/long">Pricing for teams and more</a>
+			<a href="https://example.com/short">Pricing plans</a>
+		`;
+		expect(findLinkCandidate("pricing")?.href).toBe(
+			"https://example.com/short"
+		);
+	});
+
+	it("finds links in open shadow roots", () => {
+		const host = document.createElement("div");
+		document.body.appendChild(host);
+		const shadowRoot = host.attachShadow({ mode: "open" });
+		shadowRoot.innerHTML = `<a href="https://example.com/shadow">Shadow link</a>`;
+
+		expect(findLinkCandidate("Shadow link")?.href).toBe(
+			"https://example.com/shadow"
+		);
+	});
+
+	it("uses the anchor enclosing the DOM selection", () => {
+		document.body.innerHTML = `
+			<a href="https://example.com/first">Same text</a>
+			<a id="selected" href="https://example.com/second">Same text</a>
+		`;
+		const range = document.createRange();
+		range.selectNodeContents(document.getElementById("selected")!);
+		window.getSelection()?.addRange(range);
+
+		expect(findLinkCandidate("Same text")).toEqual({
+			href: "https://example.com/second",
+			score: 100,
+		});
+	});
+
+	it("returns null without a match", () => {
+		document.body.innerHTML = `<a href="https://example.com/">Home</a>`;
+		expect(findLinkCandidate("nothing here")).toBeNull();
+		expect(findLinkCandidate("   ")).toBeNull();
+	});
+});
+
+describe("pickBestLink", () => {
+	it("picks the highest score", () => {
+		expect(
+			pickBestLink([
+				{ href: "https://a.com/", score: 60, frameId: 0 },
+				{ href: "https://b.com/", score: 80, frameId: 3 },
+			])
+		).toBe("https://b.com/");
+	});
+
+	it("favours the clicked frame on close scores", () => {
+		expect(
+			pickBestLink(
+				[
+					{ href: "https://a.com/", score: 80, frameId: 0 },
+					{ href: "https://b.com/", score: 80, frameId: 3 },
+				],
+				3
+			)
+		).toBe("https://b.com/");
+	});
+
+	it("returns null without candidates", () => {
+		expect(pickBestLink([])).toBeNull();
+	});
+});
+
+describe("findLinkBySelection", () => {
+	const mockChrome = {
+		scripting: {
+			executeScript: vi.fn(),
+		},
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		Object.assign(globalThis, { chrome: mockChrome });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("searches every frame of the tab", async () => {
+		mockChrome.scripting.executeScript.mockResolvedValue([
+			{ frameId: 0, result: null },
+			{
+				frameId: 4,
+				result: { href: "https://widget.example.com/", score: 80 },
+			},
+		]);
+
+		expect(await findLinkBySelection(12, "Widget", 4)).toBe(
+			"https://widget.example.com/"
+		);
+		expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith({
+			target: { tabId: 12, allFrames: true },
+			func: findLinkCandidate,
+			args: ["Widget"],
+		});
+	});
+
+	it("does nothing without a tab or selection", async () => {
+		expect(await findLinkBySelection(undefined, "Link")).toBeNull();
+		expect(await findLinkBySelection(1, "")).toBeNull();
+		expect(mockChrome.scripting.executeScript).not.toHaveBeenCalled();
+	});
+});
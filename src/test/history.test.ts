@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+	addHistoryEntries,
+	addHistoryEntry,
+	clearHistory,
+	exportHistory,
+	getHistory,
+	removeHistoryEntry,
+	searchHistory,
+	MAX_HISTORY_ENTRIES,
+	type HistoryEntry,
+} from "../utils/history";
+
+const entry = (overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+	id: "1",
+	originalUrl: "https://example.com/page?utm_source=x",
+	cleanedUrl: "https://example.com/page",
+	title: "Example",
+	timestamp: Date.UTC(2025, 0, 31, 12),
+	rules: ["Tracking parameters"],
+	...overrides,
+});
+
+describe("history storage", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("returns an empty history by default", async () => {
+		vi.mocked(chrome.storage.local.get).mockResolvedValue({} as any);
+
+		expect(await getHistory()).toEqual([]);
+		expect(chrome.storage.local.get).toHaveBeenCalledWith(["cleanHistory"]);
+	});
+
+	it("adds new entries on top", async () => {
+		const existing = entry();
+		vi.mocked(chrome.storage.local.get).mockResolvedValue({
+			cleanHistory: [existing],
+		} as any);
+
+		const added = await addHistoryEntry({
+			originalUrl: "https://a.com/?fbclid=1",
+			cleanedUrl: "https://a.com/",
+			title: "A",
+			rules: [],
+		});
+
+		expect(added.id).toEqual(expect.any(String));
+		expect(added.timestamp).toEqual(expect.any(Number));
+		expect(chrome.storage.local.set).toHaveBeenCalledWith({
+			cleanHistory: [added, existing],
+		});
+	});
+
+	it("keeps the last entry of a batch on top", async () => {
+		vi.mocked(chrome.storage.local.get).mockResolvedValue({} as any);
+
+		const added = await addHistoryEntries([
+			{ originalUrl: "a", cleanedUrl: "a", title: "", rules: [] },
+			{ originalUrl: "b", cleanedUrl: "b", title: "", rules: [] },
+		]);
+
+		expect(added.map((e) => e.originalUrl)).toEqual(["a", "b"]);
+		expect(chrome.storage.local.set).toHaveBeenCalledWith({
+			cleanHistory: [added[1], added[0]],
+		});
+	});
+
+	it("bounds the history size", async () => {
+		const full = Array.from({ length: MAX_HISTORY_ENTRIES }, (_, i) =>
+			entry({ id: String(i) })
+		);
+		vi.mocked(chrome.storage.local.get).mockResolvedValue({
+			cleanHistory: full,
+		} as any);
+
+		await addHistoryEntry({
+			originalUrl: "new",
+			cleanedUrl: "new",
+			title: "",
+			rules: [],
+		});
+
+		const [[stored]] = vi.mocked(chrome.storage.local.set).mock
+			.calls as unknown as [[{ cleanHistory: HistoryEntry[] }]];
+		expect(stored.cleanHistory).toHaveLength(MAX_HISTORY_ENTRIES);
+		expect(stored.cleanHistory[0].originalUrl).toBe("new");
+		expect(stored.cleanHistory[MAX_HISTORY_ENTRIES - 1].id).toBe(
+			String(MAX_HISTORY_ENTRIES - 2)
+		);
+	});
+
+	it("removes a single entry", async () => {
+		vi.mocked(chrome.storage.local.get).mockResolvedValue({
+			cleanHistory: [entry({ id: "1" }), entry({ id: "2" })],
+		} as any);
+
+		await removeHistoryEntry("1");
+
+		expect(chrome.storage.local.set).toHaveBeenCalledWith({
+			cleanHistory: [entry({ id: "2" })],
+		});
+	});
+
+	it("clears all entries", async () => {
+		await clearHistory();
+
+		expect(chrome.storage.local.set).toHaveBeenCalledWith({
+			cleanHistory: [],
+		});
+	});
+});
+
+describe("searchHistory", () => {
+	const entries = [
+		entry({ id: "1", title: "Cats on YouTube" }),
+		entry({
+			id: "2",
+			title: "Shop",
+			cleanedUrl: "https://www.amazon.com/dp/B000000000",
+			rules: ["Amazon"],
+		}),
+	];
+
+	it("returns all entries for an empty query", () => {
+		expect(searchHistory(entries, "  ")).toEqual(entries);
+	});
+
+	it("matches titles, URLs and rules case-insensitively", () => {
+		expect(searchHistory(entries, "youtube")).toEqual([entries[0]]);
+		expect(searchHistory(entries, "AMAZON.COM")).toEqual([entries[1]]);
+		expect(searchHistory(entries, "amazon")).toEqual([entries[1]]);
+	});
+});
+
+describe("exportHistory", () => {
+	it("exports JSON", () => {
+		const entries = [entry()];
+		expect(JSON.parse(exportHistory(entries, "json"))).toEqual(entries);
+	});
+
+	it("exports CSV with a header and escaped values", () => {
+		const csv = exportHistory(
+			[entry({ title: 'Say "hi", world', rules: ["A", "B"] })],
+			"csv"
+		);
+
+		expect(csv).toBe(
+			[
+				"timestamp,title,originalUrl,cleanedUrl,rules",
+				'2025-01-31T12:00:00.000Z,"Say ""hi"", world",https://example.com/page?utm_source=x,https://example.com/page,A; B',
+			].join("\n")
+		);
+	});
+});
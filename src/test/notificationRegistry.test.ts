@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import {
+	linkNotification,
+	registerNotificationHandler,
+	setupNotificationHandlers,
+	NOTIFICATION_STORAGE_KEY,
+} from "../utils/notificationRegistry";
+import { notifyCleanCopy } from "../logic/cleanCopyUndo";
+import * as browserUtils from "../utils/browser";
+import * as clipboard from "../utils/clipboard";
+import * as cleanSettings from "../utils/cleanSettings";
+
+type Listener = (...args: any[]) => Promise<void>;
+
+const listener = (event: { addListener: unknown }): Listener =>
+	vi.mocked(event.addListener as (listener: Listener) => void).mock
+		.calls[0][0];
+
+// Notification events as dispatched by the browser
+const buttonClicked = (id: string, index: number) =>
+	listener(chrome.notifications.onButtonClicked)(id, index);
+const clicked = (id: string) => listener(chrome.notifications.onClicked)(id);
+const closed = (id: string) => listener(chrome.notifications.onClosed)(id);
+
+describe("notificationRegistry", () => {
+	const handler = {
+		onButtonClicked: vi.fn(),
+		onClicked: vi.fn(),
+		onClosed: vi.fn(),
+	};
+
+	beforeAll(() => {
+		setupNotificationHandlers();
+		registerNotificationHandler("test", handler);
+	});
+
+	beforeEach(() => {
+		handler.onButtonClicked.mockReset();
+		handler.onClicked.mockReset();
+		handler.onClosed.mockReset();
+		vi.mocked(chrome.notifications.clear).mockReset();
+	});
+
+	it("routes button clicks with the linked data", async () => {
+		await linkNotification("n1", "test", { value: 1 });
+		await buttonClicked("n1", 1);
+
+		expect(handler.onButtonClicked).toHaveBeenCalledWith({ value: 1 }, 1);
+		expect(chrome.notifications.clear).toHaveBeenCalledWith("n1");
+	});
+
+	it("routes clicks on the notification", async () => {
+		await linkNotification("n2", "test", "data");
+		await clicked("n2");
+
+		expect(handler.onClicked).toHaveBeenCalledWith("data");
+	});
+
+	it("drops the link when the notification is closed", async () => {
+		await linkNotification("n3", "test", "data");
+		await closed("n3");
+		await buttonClicked("n3", 0);
+
+		expect(handler.onClosed).toHaveBeenCalledWith("data");
+		expect(handler.onButtonClicked).not.toHaveBeenCalled();
+	});
+
+	it("ignores unknown notifications", async () => {
+		await buttonClicked("unknown", 0);
+		expect(handler.onButtonClicked).not.toHaveBeenCalled();
+	});
+
+	it("ignores notifications that were not shown", async () => {
+		await linkNotification("", "test", "data");
+		await buttonClicked("", 0);
+		expect(handler.onButtonClicked).not.toHaveBeenCalled();
+	});
+
+	it("logs handler errors", async () => {
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		handler.onClicked.mockRejectedValue(new Error("boom"));
+		await linkNotification("n4", "test", "data");
+
+		await expect(clicked("n4")).resolves.toBeUndefined();
+		expect(error).toHaveBeenCalledWith(
+			"[Notifications] Handler failed:",
+			"test",
+			expect.any(Error)
+		);
+	});
+
+	it("restores links stored by a previous worker", async () => {
+		vi.resetModules();
+		const session = {
+			get: vi.fn().mockResolvedValue({
+				[NOTIFICATION_STORAGE_KEY]: {
+					stored: { kind: "restored", data: "saved" },
+				},
+			}),
+			set: vi.fn(),
+		};
+		Object.assign(chrome.storage, { session });
+		const registry = await import("../utils/notificationRegistry");
+		const onButtonClicked = vi.fn();
+		registry.registerNotificationHandler("restored", { onButtonClicked });
+
+		vi.mocked(chrome.notifications.onButtonClicked.addListener).mockClear();
+		registry.setupNotificationHandlers();
+		await buttonClicked("stored", 0);
+
+		expect(onButtonClicked).toHaveBeenCalledWith("saved", 0);
+		delete (chrome.storage as Partial<typeof chrome.storage>).session;
+	});
+
+	it("routes events that arrive while the links are restored", async () => {
+		vi.resetModules();
+		let resolve = (_value: unknown) => {};
+		const session = {
+			get: vi.fn(
+				() =>
+					new Promise((r) => {
+						resolve = r;
+					})
+			),
+			set: vi.fn(),
+		};
+		Object.assign(chrome.storage, { session });
+		const registry = await import("../utils/notificationRegistry");
+		const onButtonClicked = vi.fn();
+		registry.registerNotificationHandler("restored", { onButtonClicked });
+
+		vi.mocked(chrome.notifications.onButtonClicked.addListener).mockClear();
+		registry.setupNotificationHandlers();
+		const first = buttonClicked("one", 0);
+		const second = buttonClicked("two", 1);
+		resolve({
+			[NOTIFICATION_STORAGE_KEY]: {
+				one: { kind: "restored", data: "first" },
+				two: { kind: "restored", data: "second" },
+			},
+		});
+		await Promise.all([first, second]);
+
+		expect(session.get).toHaveBeenCalledTimes(1);
+		expect(onButtonClicked).toHaveBeenCalledWith("first", 0);
+		expect(onButtonClicked).toHaveBeenCalledWith("second", 1);
+		delete (chrome.storage as Partial<typeof chrome.storage>).session;
+	});
+});
+
+describe("clean copy undo", () => {
+	const undo = {
+		tabId: 7,
+		text: "https://example.com/?session=abc",
+		host: "example.com",
+	};
+
+	beforeAll(() => {
+		vi.mocked(chrome.notifications.onButtonClicked.addListener).mockClear();
+		setupNotificationHandlers();
+	});
+
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		vi.spyOn(browserUtils, "showNotification").mockResolvedValue("");
+		vi.spyOn(browserUtils, "showNotificationWithButtons").mockResolvedValue(
+			"clean-1"
+		);
+		vi.spyOn(clipboard, "writeClipboard").mockResolvedValue({
+			success: true,
+			method: "tab",
+		});
+		vi.spyOn(cleanSettings, "getDomainPolicies").mockResolvedValue([]);
+		vi.spyOn(cleanSettings, "setDomainPolicies").mockResolvedValue();
+	});
+
+	it("shows the copy original and exception buttons", async () => {
+		await notifyCleanCopy("Removed 1 tracking parameter.", undo);
+
+		expect(browserUtils.showNotificationWithButtons).toHaveBeenCalledWith(
+			"Clean Copy URL",
+			"Removed 1 tracking parameter.",
+			[
+				{ title: "Copy original" },
+				{ title: "Add exception for this site" },
+			],
+			false,
+			undefined
+		);
+	});
+
+	it("copies the original URL", async () => {
+		await notifyCleanCopy("Cleaned.", undo);
+		await buttonClicked("clean-1", 0);
+
+		expect(clipboard.writeClipboard).toHaveBeenCalledWith(
+			7,
+			undo.text,
+			undefined
+		);
+		expect(cleanSettings.setDomainPolicies).not.toHaveBeenCalled();
+		expect(browserUtils.showNotification).toHaveBeenCalledWith(
+			"Clean Copy URL",
+			"The original URL was copied."
+		);
+	});
+
+	it("adds an exception and copies the original URL", async () => {
+		await notifyCleanCopy("Cleaned.", undo);
+		await buttonClicked("clean-1", 1);
+
+		expect(cleanSettings.setDomainPolicies).toHaveBeenCalledWith([
+			{ host: "example.com", action: "skip-clean" },
+		]);
+		expect(clipboard.writeClipboard).toHaveBeenCalled();
+	});
+
+	it("does not add the same exception twice", async () => {
+		vi.mocked(cleanSettings.getDomainPolicies).mockResolvedValue([
+			{ host: "example.com", action: "skip-clean" },
+		]);
+		await notifyCleanCopy("Cleaned.", undo);
+		await buttonClicked("clean-1", 1);
+
+		expect(cleanSettings.setDomainPolicies).not.toHaveBeenCalled();
+	});
+
+	it("reports when the original cannot be copied", async () => {
+		vi.mocked(clipboard.writeClipboard).mockResolvedValue({
+			success: false,
+			error: "denied",
+		});
+		await notifyCleanCopy("Cleaned.", undo);
+		await buttonClicked("clean-1", 0);
+
+		expect(browserUtils.showNotification).toHaveBeenCalledWith(
+			"Clean Copy URL",
+			"The original URL could not be copied.",
+			true
+		);
+	});
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	getPipelineConfig,
+	getTransformers,
+	registerTransformer,
+	resolvePipeline,
+	runPipeline,
+	type TransformContext,
+	type UrlTransformer,
+} from "../logic/pipeline";
+import { cleanUrl } from "../logic/cleanCopyUrl";
+import { BUILT_IN_DOMAIN_RULES } from "../logic/domainRules";
+import { DEFAULT_NORMALIZE_OPTIONS } from "../logic/normalizeUrl";
+import { DEFAULT_AMP_PUBLISHERS, DEFAULT_MOBILE_HOSTS } from "../logic/deAmp";
+
+const createContext = (
+	overrides: Partial<TransformContext> = {}
+): TransformContext => ({
+	mode: "balanced",
+	keepFragment: false,
+	rules: BUILT_IN_DOMAIN_RULES,
+	providers: {},
+	normalize: DEFAULT_NORMALIZE_OPTIONS,
+	mobileHosts: DEFAULT_MOBILE_HOSTS,
+	ampPublishers: DEFAULT_AMP_PUBLISHERS,
+	applied: new Set(),
+	removedParams: [],
+	warnings: [],
+	...overrides,
+});
+
+const lowercasePath: UrlTransformer = {
+	id: "lowercase-path",
+	name: "Lowercase path",
+	transform: (url, context) => {
+		const parsedUrl = new URL(url);
+		parsedUrl.pathname = parsedUrl.pathname.toLowerCase();
+		if (parsedUrl.href !== url) context.applied.add("Lowercase path");
+		return parsedUrl.href;
+	},
+};
+
+describe("pipeline", () => {
+	let unregister: (() => void) | undefined;
+
+	beforeEach(() => {
+		vi.spyOn(console, "debug").mockImplementation(() => {});
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		unregister?.();
+		unregister = undefined;
+		vi.restoreAllMocks();
+	});
+
+	describe("registry", () => {
+		it("registers the built-in transformers in order", () => {
+			expect(getTransformers().map(({ id }) => id)).toEqual([
+				"unwrap",
+				"de-amp",
+				"custom",
+				"canonicalize-path",
+				"strip-params",
+				"normalize",
+			]);
+		});
+
+		it("appends registered transformers and unregisters them", () => {
+			unregister = registerTransformer(lowercasePath);
+			const registered = getTransformers();
+			expect(registered[registered.length - 1]).toBe(lowercasePath);
+
+			unregister();
+			expect(getTransformers()).not.toContain(lowercasePath);
+		});
+	});
+
+	describe("getPipelineConfig", () => {
+		it("enables every transformer by default", () => {
+			expect(getPipelineConfig()).toEqual(
+				getTransformers().map(({ id }) => ({ id, enabled: true }))
+			);
+		});
+
+		it("keeps the stored order and appends missing transformers", () => {
+			const config = getPipelineConfig([
+				{ id: "normalize", enabled: true },
+				{ id: "unknown", enabled: true },
+				{ id: "unwrap", enabled: false },
+			]);
+
+			expect(config.slice(0, 2)).toEqual([
+				{ id: "normalize", enabled: true },
+				{ id: "unwrap", enabled: false },
+			]);
+			expect(config.map(({ id }) => id)).not.toContain("unknown");
+			expect(config).toHaveLength(getTransformers().length);
+		});
+	});
+
+	describe("resolvePipeline", () => {
+		it("skips disabled transformers", () => {
+			const ids = resolvePipeline([
+				{ id: "strip-params", enabled: false },
+			]).map(({ id }) => id);
+			expect(ids).not.toContain("strip-params");
+			expect(ids).toContain("unwrap");
+		});
+	});
+
+	describe("runPipeline", () => {
+		it("traces every step", () => {
+			const context = createContext();
+			const result = runPipeline(
+				"https://www.google.com/url?q=https%3A%2F%2Fexample.com%2Fa%3Futm_source%3Dx",
+				context
+			);
+
+			expect(result.url).toBe("https://example.com/a");
+			expect(result.trace.map(({ id }) => id)).toEqual([
+				"unwrap",
+				"de-amp",
+				"custom",
+				"canonicalize-path",
+				"strip-params",
+				"normalize",
+			]);
+			expect(result.trace[0].after).toBe(
+				"https://example.com/a?utm_source=x"
+			);
+			expect(result.trace[4]).toEqual({
+				id: "strip-params",
+				name: "Strip parameters",
+				before: "https://example.com/a?utm_source=x",
+				after: "https://example.com/a",
+			});
+			expect(context.removedParams).toEqual(["utm_source"]);
+		});
+
+		it("stops at unsupported protocols", () => {
+			const toJavascript: UrlTransformer = {
+				id: "to-javascript",
+				name: "To javascript",
+				transform: () => "javascript:alert(1)",
+			};
+
+			const result = runPipeline("https://example.com/", createContext(), [
+				toJavascript,
+				lowercasePath,
+			]);
+
+			expect(result.unsupportedProtocol).toBe("javascript:");
+			expect(result.trace).toHaveLength(1);
+		});
+	});
+
+	describe("cleanUrl", () => {
+		it("runs registered transformers", () => {
+			unregister = registerTransformer(lowercasePath);
+
+			const result = cleanUrl(
+				"https://example.com/Some/Path?utm_source=x",
+				{ mode: "balanced" }
+			);
+
+			expect(result.output).toBe("https://example.com/some/path");
+			expect(result.rules).toContain("Lowercase path");
+		});
+
+		it("follows the configured order and enabled state", () => {
+			const result = cleanUrl("https://example.com/a?utm_source=x#top", {
+				mode: "balanced",
+				keepFragment: true,
+				transformers: [
+					{ id: "strip-params", enabled: false },
+					{ id: "normalize", enabled: false },
+				],
+			});
+
+			expect(result.output).toBe(
+				"https://example.com/a?utm_source=x#top"
+			);
+			expect(result.status).toBe("unchanged");
+		});
+
+		it("includes the trace in the result", () => {
+			const result = cleanUrl("https://example.com/?fbclid=1", {
+				mode: "balanced",
+			});
+			const step = result.trace.find(({ id }) => id === "strip-params");
+			expect(step).toEqual(
+				expect.objectContaining({
+					before: "https://example.com/?fbclid=1",
+					after: "https://example.com/",
+				})
+			);
+		});
+	});
+});
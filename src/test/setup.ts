@@ -7,6 +7,10 @@ const mockChrome = {
 			get: vi.fn(),
 			set: vi.fn(),
 		},
+		local: {
+			get: vi.fn(),
+			set: vi.fn(),
+		},
 		onChanged: {
 			addListener: vi.fn(),
 		},
@@ -0,0 +1,289 @@
+/// <reference types="node" />
+// @vitest-environment node
+import {
+	describe,
+	it,
+	expect,
+	vi,
+	beforeAll,
+	afterAll,
+	beforeEach,
+} from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import {
+	fetchSubscription,
+	getSubscriptionProviders,
+	setupSubscriptionUpdates,
+	sha256Integrity,
+	updateSubscriptions,
+	SUBSCRIPTION_ALARM,
+	SUBSCRIPTION_CACHE_STORAGE_KEY,
+	SUBSCRIPTIONS_STORAGE_KEY,
+} from "../utils/subscriptions";
+import { loadCleanOptions } from "../logic/cleanCopyUrl";
+import { mergeProviders } from "../logic/clearUrls";
+
+const RULES = JSON.stringify({
+	providers: {
+		Team: { urlPattern: "example\\.com", rules: ["team_ref"] },
+	},
+});
+// Saved by an editor that writes a byte order mark
+const RULES_WITH_BOM = Buffer.concat([
+	Buffer.from([0xef, 0xbb, 0xbf]),
+	Buffer.from(RULES),
+]);
+const ETAG = '"v1"';
+const LAST_MODIFIED = "Mon, 05 Oct 2026 10:00:00 GMT";
+
+// Local stand-in for a rule list server
+let server: Server;
+let baseUrl: string;
+const requests: Record<string, string | undefined>[] = [];
+
+beforeAll(async () => {
+	server = createServer((request, response) => {
+		requests.push({
+			path: request.url,
+			ifNoneMatch: request.headers["if-none-match"],
+			ifModifiedSince: request.headers["if-modified-since"],
+		});
+		switch (request.url) {
+			case "/rules.json":
+				if (request.headers["if-none-match"] === ETAG) {
+					response.writeHead(304).end();
+					return;
+				}
+				response
+					.writeHead(200, {
+						"Content-Type": "application/json",
+						ETag: ETAG,
+						"Last-Modified": LAST_MODIFIED,
+					})
+					.end(RULES);
+				return;
+			case "/bom.json":
+				response.writeHead(200).end(RULES_WITH_BOM);
+				return;
+			case "/invalid.json":
+				response.writeHead(200).end("{ not json");
+				return;
+			default:
+				response.writeHead(500).end();
+		}
+	});
+	await new Promise<void>((resolve) =>
+		server.listen(0, "127.0.0.1", resolve)
+	);
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+	requests.length = 0;
+	vi.clearAllMocks();
+	vi.spyOn(console, "log").mockImplementation(() => {});
+	vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("fetchSubscription", () => {
+	it("fetches and parses a rule list", async () => {
+		const result = await fetchSubscription({ url: `${baseUrl}/rules.json` });
+
+		expect(result.providers).toEqual(JSON.parse(RULES).providers);
+		expect(result.etag).toBe(ETAG);
+		expect(result.lastModified).toBe(LAST_MODIFIED);
+		expect(result.updatedAt).toBeTypeOf("number");
+		expect(result.error).toBeUndefined();
+	});
+
+	it("sends conditional headers and keeps the copy on 304", async () => {
+		const subscription = { url: `${baseUrl}/rules.json` };
+		const first = await fetchSubscription(subscription);
+		const second = await fetchSubscription(subscription, first);
+
+		expect(requests[1]).toMatchObject({
+			ifNoneMatch: ETAG,
+			ifModifiedSince: LAST_MODIFIED,
+		});
+		expect(second.providers).toEqual(first.providers);
+		expect(second.updatedAt).toBe(first.updatedAt);
+	});
+
+	it("accepts content matching the integrity pin", async () => {
+		const integrity = await sha256Integrity(RULES);
+		const result = await fetchSubscription({
+			url: `${baseUrl}/rules.json`,
+			integrity,
+		});
+
+		expect(Object.keys(result.providers)).toEqual(["Team"]);
+		expect(result.integrity).toBe(integrity);
+	});
+
+	it("checks the pin against the bytes as served", async () => {
+		const integrity = await sha256Integrity(
+			new Uint8Array(RULES_WITH_BOM).buffer
+		);
+		const result = await fetchSubscription({
+			url: `${baseUrl}/bom.json`,
+			integrity,
+		});
+
+		expect(result.error).toBeUndefined();
+		expect(Object.keys(result.providers)).toEqual(["Team"]);
+	});
+
+	it("rejects content not matching the integrity pin", async () => {
+		const cached = await fetchSubscription({ url: `${baseUrl}/rules.json` });
+		const result = await fetchSubscription(
+			{ url: `${baseUrl}/rules.json`, integrity: "sha256-AAAA" },
+			cached
+		);
+
+		// A changed pin skips the conditional request
+		expect(requests[1].ifNoneMatch).toBeUndefined();
+		expect(result.error).toMatch(/^Integrity check failed/);
+		expect(result.providers).toEqual(cached.providers);
+	});
+
+	it("keeps the last good copy on errors", async () => {
+		const cached = await fetchSubscription({ url: `${baseUrl}/rules.json` });
+
+		const failed = await fetchSubscription(
+			{ url: `${baseUrl}/missing.json` },
+			cached
+		);
+		expect(failed.error).toMatch(/^HTTP 500/);
+		expect(failed.providers).toEqual(cached.providers);
+
+		const invalid = await fetchSubscription(
+			{ url: `${baseUrl}/invalid.json` },
+			cached
+		);
+		expect(invalid.error).toMatch(/^Invalid JSON/);
+		expect(invalid.providers).toEqual(cached.providers);
+	});
+});
+
+describe("updateSubscriptions", () => {
+	it("updates subscribed lists and drops unsubscribed copies", async () => {
+		const url = `${baseUrl}/rules.json`;
+		vi.mocked(chrome.storage.sync.get).mockResolvedValue({
+			[SUBSCRIPTIONS_STORAGE_KEY]: [{ url }],
+		} as never);
+		vi.mocked(chrome.storage.local.get).mockResolvedValue({
+			[SUBSCRIPTION_CACHE_STORAGE_KEY]: {
+				"https://old.example/rules.json": { providers: {} },
+			},
+		} as never);
+
+		const updated = await updateSubscriptions();
+
+		expect(Object.keys(updated)).toEqual([url]);
+		expect(chrome.storage.local.set).toHaveBeenCalledWith({
+			[SUBSCRIPTION_CACHE_STORAGE_KEY]: updated,
+		});
+	});
+});
+
+describe("precedence", () => {
+	const rule = (urlPattern: string) => ({ urlPattern, rules: ["x"] });
+
+	it("lets earlier lists win name conflicts and run first", () => {
+		const merged = mergeProviders(
+			{ Shared: rule("user"), User: rule("user") },
+			{ Team: rule("team"), Shared: rule("team") }
+		);
+
+		expect(Object.keys(merged)).toEqual(["Shared", "User", "Team"]);
+		expect(merged.Shared.urlPattern).toBe("user");
+	});
+
+	it("merges subscriptions in subscription order", async () => {
+		vi.mocked(chrome.storage.sync.get).mockResolvedValue({
+			[SUBSCRIPTIONS_STORAGE_KEY]: [{ url: "a" }, { url: "b" }],
+		} as never);
+		vi.mocked(chrome.storage.local.get).mockResolvedValue({
+			[SUBSCRIPTION_CACHE_STORAGE_KEY]: {
+				b: { providers: { Shared: rule("b") } },
+				a: { providers: { Shared: rule("a") } },
+			},
+		} as never);
+
+		expect((await getSubscriptionProviders()).Shared.urlPattern).toBe("a");
+	});
+
+	it("puts custom rules before subscriptions in the clean options", async () => {
+		vi.mocked(chrome.storage.sync.get).mockResolvedValue({
+			[SUBSCRIPTIONS_STORAGE_KEY]: [{ url: "a" }],
+		} as never);
+		vi.mocked(chrome.storage.local.get).mockResolvedValue({
+			customProviders: { Shared: rule("user") },
+			[SUBSCRIPTION_CACHE_STORAGE_KEY]: {
+				a: { providers: { Shared: rule("a"), Team: rule("a") } },
+			},
+		} as never);
+
+		const { providers } = await loadCleanOptions();
+		expect(providers).toEqual({ Shared: rule("user"), Team: rule("a") });
+	});
+});
+
+describe("setupSubscriptionUpdates", () => {
+	const alarms = {
+		get: vi.fn(),
+		create: vi.fn(),
+		onAlarm: { addListener: vi.fn() },
+	};
+
+	beforeAll(() => {
+		Object.assign(chrome, { alarms });
+	});
+
+	afterAll(() => {
+		delete (chrome as Partial<typeof chrome>).alarms;
+	});
+
+	it("creates the alarm when it does not exist", async () => {
+		alarms.get.mockResolvedValue(undefined);
+		await setupSubscriptionUpdates();
+
+		expect(alarms.create).toHaveBeenCalledWith(
+			SUBSCRIPTION_ALARM,
+			expect.objectContaining({ periodInMinutes: expect.any(Number) })
+		);
+		expect(alarms.onAlarm.addListener).toHaveBeenCalled();
+	});
+
+	it("logs updates that cannot be stored", async () => {
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		vi.mocked(chrome.storage.sync.get).mockResolvedValue({} as never);
+		vi.mocked(chrome.storage.local.get).mockResolvedValue({} as never);
+		vi.mocked(chrome.storage.local.set).mockRejectedValueOnce(
+			new Error("QUOTA_BYTES quota exceeded")
+		);
+		alarms.onAlarm.addListener.mockClear();
+		alarms.get.mockResolvedValue({ name: SUBSCRIPTION_ALARM });
+		await setupSubscriptionUpdates();
+
+		alarms.onAlarm.addListener.mock.calls[0][0]({ name: SUBSCRIPTION_ALARM });
+		await vi.waitFor(() =>
+			expect(error).toHaveBeenCalledWith(
+				"[Subscriptions] Could not store rule lists:",
+				expect.any(Error)
+			)
+		);
+	});
+
+	it("keeps an existing alarm", async () => {
+		alarms.get.mockResolvedValue({ name: SUBSCRIPTION_ALARM });
+		await setupSubscriptionUpdates();
+
+		expect(alarms.create).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { cleanCopyUrl } from "../logic/cleanCopyUrl";
+import { unwrapOnce, unwrapUrl } from "../logic/unwrapUrl";
+
+const wrap = (wrapper: string, target: string) =>
+	`${wrapper}${encodeURIComponent(target)}`;
+
+describe("unwrapOnce", () => {
+	it("unwraps Google result links", () => {
+		const url = wrap(
+			"https://www.google.com/url?sa=t&rct=j&url=",
+			"https://example.com/article?id=1"
+		);
+		expect(unwrapOnce(url)).toBe("https://example.com/article?id=1");
+	});
+
+	it("unwraps Google links on country domains using q", () => {
+		const url = wrap(
+			"https://www.google.co.uk/url?q=",
+			"https://example.com/"
+		);
+		expect(unwrapOnce(url)).toBe("https://example.com/");
+	});
+
+	it("unwraps Facebook outbound links", () => {
+		const url = wrap(
+			"https://l.facebook.com/l.php?u=",
+			"https://example.com/page"
+		);
+		expect(unwrapOnce(url + "&h=AT0abc")).toBe("https://example.com/page");
+	});
+
+	it("unwraps Outlook SafeLinks", () => {
+		const url =
+			wrap(
+				"https://eur01.safelinks.protection.outlook.com/?url=",
+				"https://example.com/invite"
+			) + "&data=05%7C01&reserved=0";
+		expect(unwrapOnce(url)).toBe("https://example.com/invite");
+	});
+
+	it("unwraps Slack redirects", () => {
+		const url = wrap(
+			"https://slack-redir.net/link?url=",
+			"https://example.com/doc"
+		);
+		expect(unwrapOnce(url)).toBe("https://example.com/doc");
+	});
+
+	it("returns null for URLs that are not wrapped", () => {
+		expect(unwrapOnce("https://www.google.com/search?q=test")).toBeNull();
+		expect(unwrapOnce("https://example.com/url?q=x")).toBeNull();
+	});
+
+	it("ignores non-http targets", () => {
+		const url = wrap(
+			"https://www.google.com/url?q=",
+			"javascript:alert(1)"
+		);
+		expect(unwrapOnce(url)).toBeNull();
+	});
+
+	it("returns null for invalid URLs", () => {
+		expect(unwrapOnce("not a url")).toBeNull();
+	});
+});
+
+describe("unwrapUrl", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "debug").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("unwraps nested wrappers recursively", () => {
+		const inner = wrap(
+			"https://l.facebook.com/l.php?u=",
+			"https://example.com/final"
+		);
+		const outer = wrap(
+			"https://eur01.safelinks.protection.outlook.com/?url=",
+			inner
+		);
+		expect(unwrapUrl(outer)).toBe("https://example.com/final");
+	});
+
+	it("stops at the depth limit", () => {
+		const inner = wrap(
+			"https://l.facebook.com/l.php?u=",
+			"https://example.com/final"
+		);
+		const outer = wrap("https://www.google.com/url?q=", inner);
+		expect(unwrapUrl(outer, 1)).toBe(inner);
+	});
+
+	it("returns the input when not wrapped", () => {
+		expect(unwrapUrl("https://example.com/page")).toBe(
+			"https://example.com/page"
+		);
+	});
+});
+
+describe("cleanCopyUrl with redirect wrappers", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "debug").mockImplementation(() => {});
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("cleans the unwrapped target instead of the wrapper", () => {
+		const url = wrap(
+			"https://www.google.com/url?q=",
+			"https://example.com/article?utm_source=google"
+		);
+		expect(cleanCopyUrl(url)).toBe("https://example.com/article");
+	});
+
+	it("applies domain rules to the unwrapped target", () => {
+		const url = wrap(
+			"https://l.facebook.com/l.php?u=",
+			"https://youtu.be/dQw4w9WgXcQ?si=abc&fbclid=xyz"
+		);
+		expect(cleanCopyUrl(url, { mode: "balanced" })).toBe(
+			"https://youtu.be/dQw4w9WgXcQ"
+		);
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { cleanUrl } from "../logic/cleanCopyUrl";
+import { diffUrl, explainParams } from "../logic/urlLab";
+
+describe("diffUrl", () => {
+	it("marks removed parameters", () => {
+		expect(
+			diffUrl(
+				"https://example.com/a?id=1&utm_source=x",
+				"https://example.com/a?id=1"
+			)
+		).toEqual([
+			{ kind: "same", text: "https://example.com/a?id=1" },
+			{ kind: "removed", text: "&utm_source=x" },
+		]);
+	});
+
+	it("marks replaced parts as removed and added", () => {
+		expect(
+			diffUrl("https://m.example.com/a", "https://www.example.com/a")
+		).toEqual([
+			{ kind: "same", text: "https://" },
+			{ kind: "removed", text: "m.example.com" },
+			{ kind: "added", text: "www.example.com" },
+			{ kind: "same", text: "/a" },
+		]);
+	});
+
+	it("returns a single segment for equal URLs", () => {
+		const url = "https://example.com/?a=1";
+		expect(diffUrl(url, url)).toEqual([{ kind: "same", text: url }]);
+	});
+});
+
+describe("explainParams", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "debug").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("reports the step and rule that removed each parameter", () => {
+		const options = { mode: "balanced" as const };
+		const result = cleanUrl(
+			"https://www.youtube.com/watch?v=abc&si=xyz&utm_source=x",
+			options
+		);
+
+		expect(explainParams(result, options)).toEqual([
+			{ name: "v" },
+			{
+				name: "si",
+				step: "Strip parameters",
+				rule: expect.any(String),
+			},
+			{
+				name: "utm_source",
+				step: "Strip parameters",
+				rule: "Tracking parameters",
+			},
+		]);
+	});
+
+	it("reports strict mode removals", () => {
+		const result = cleanUrl("https://example.com/?page=2");
+		expect(explainParams(result)).toEqual([
+			{ name: "page", step: "Strip parameters", rule: "Strict mode" },
+		]);
+	});
+
+	it("attributes parameters of redirect wrappers to the unwrap step", () => {
+		const options = { mode: "balanced" as const };
+		const result = cleanUrl(
+			"https://www.google.com/url?q=https%3A%2F%2Fexample.com%2F%3Fid%3D1",
+			options
+		);
+
+		expect(explainParams(result, options)).toEqual([
+			{ name: "q", step: "Unwrap redirects" },
+			{ name: "id" },
+		]);
+	});
+
+	it("attributes custom rule removals to the custom step", () => {
+		const options = {
+			mode: "balanced" as const,
+			providers: {
+				Draft: { urlPattern: "example\\.com", rules: ["ref"] },
+			},
+		};
+		const result = cleanUrl("https://example.com/?ref=home&id=1", options);
+
+		expect(explainParams(result, options)).toEqual([
+			{ name: "ref", step: "Custom rules" },
+			{ name: "id" },
+		]);
+	});
+});
@@ -0,0 +1,277 @@
+import {
+	CLEAN_SETTINGS_STORAGE_KEY,
+	getCleanSettings,
+	getDomainPolicies,
+} from "./cleanSettings";
+import { CUSTOM_RULES_STORAGE_KEY, getCustomProviders } from "./customRules";
+import {
+	SUBSCRIPTION_CACHE_STORAGE_KEY,
+	getSubscriptionProviders,
+} from "./subscriptions";
+import {
+	PREFIXED_TRACKING_PARAMS,
+	TRACKING_PARAMS,
+} from "~/logic/trackingParams";
+import {
+	BUILT_IN_DOMAIN_RULES,
+	PUBLIC_SUFFIX_SOURCE,
+	matchesParamPattern,
+	type DomainRule,
+} from "~/logic/domainRules";
+import {
+	DOMAIN_POLICIES_STORAGE_KEY,
+	type DomainPolicy,
+} from "~/logic/domainPolicy";
+import { mergeProviders, type ClearUrlsProviders } from "~/logic/clearUrls";
+
+type DnrRule = chrome.declarativeNetRequest.Rule;
+
+/**
+ * Storage keys whose changes require the rules to be regenerated: settings
+ * and policies (sync area), custom rules and subscribed lists (local area)
+ */
+export const AUTO_CLEAN_STORAGE_KEYS = [
+	CLEAN_SETTINGS_STORAGE_KEY,
+	DOMAIN_POLICIES_STORAGE_KEY,
+	CUSTOM_RULES_STORAGE_KEY,
+	SUBSCRIPTION_CACHE_STORAGE_KEY,
+];
+
+/**
+ * Dynamic rule IDs owned by auto-clean: [RULE_ID_START, RULE_ID_END)
+ */
+const RULE_ID_START = 1000;
+const RULE_ID_END = 2000;
+
+/**
+ * Turn an allowlist or policy host into a domain Chrome accepts: lowercase,
+ * punycode and without scheme, port or path. Invalid entries are dropped.
+ */
+export const toRequestDomain = (entry: string): string | undefined => {
+	const host = entry.trim().replace(/^\*\./, "");
+	if (!host || host.includes("*")) return undefined;
+	try {
+		const url = new URL(host.includes("://") ? host : `http://${host}`);
+		return url.hostname || undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Parameter names of a ClearURLs provider that removeParams can express,
+ * the other rules are regular expressions
+ */
+const plainParamNames = (patterns: string[]) =>
+	patterns.filter((pattern) => /^[\w-]+$/.test(pattern));
+
+/**
+ * Build the declarativeNetRequest condition for a domain rule's host patterns.
+ * "*.example.com" and "example.com" map to requestDomains (which includes
+ * subdomains), patterns with other wildcards ("amazon.*") need a regexFilter.
+ */
+const toCondition = (
+	hosts: string[]
+): chrome.declarativeNetRequest.RuleCondition[] => {
+	const requestDomains = hosts
+		.map((host) => host.replace(/^\*\./, ""))
+		.filter((host) => !host.includes("*"));
+	const wildcardHosts = hosts
+		.map((host) => host.replace(/^\*\./, ""))
+		.filter((host) => host.includes("*"));
+
+	const conditions: chrome.declarativeNetRequest.RuleCondition[] = [];
+	if (requestDomains.length > 0) {
+		conditions.push({ requestDomains });
+	}
+	for (const host of wildcardHosts) {
+		// A trailing ".*" stands for a public suffix, as in matchesHostPattern
+		const publicSuffix = host.endsWith(".*");
+		const source = (publicSuffix ? host.slice(0, -2) : host)
+			.split("*")
+			.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+			.join("[^/]+");
+		const suffix = publicSuffix ? `\\.${PUBLIC_SUFFIX_SOURCE}` : "";
+		conditions.push({
+			regexFilter: `^https?://([^/]*\\.)?${source}${suffix}(:[0-9]+)?/`,
+		});
+	}
+	return conditions;
+};
+
+/**
+ * Turn the cleaning rule set into declarativeNetRequest redirect rules.
+ * Only tracking parameters are removed on navigation (balanced mode),
+ * since dropping the whole query string would break most sites.
+ * Hosts of "Never clean" policies are left alone like the allowlist; the
+ * whole host is excluded, conditions cannot match a path prefix.
+ * ClearURLs providers (custom rules and subscribed lists) add rules for
+ * their plain parameter names; providers with exceptions are left to Clean
+ * Copy since an exception cannot be limited to one rule.
+ */
+export function buildAutoCleanRules(
+	rules: DomainRule[] = BUILT_IN_DOMAIN_RULES,
+	allowlist: string[] = [],
+	policies: DomainPolicy[] = [],
+	providers: ClearUrlsProviders = {}
+): DnrRule[] {
+	const globalParams = [...TRACKING_PARAMS, ...PREFIXED_TRACKING_PARAMS];
+	const skipHosts = policies
+		.filter(({ action, host }) => action === "skip-clean" && host)
+		.map(({ host }) => host.trim().toLowerCase().replace(/^\*\./, ""));
+	const excluded = [
+		...new Set(
+			[...allowlist, ...skipHosts]
+				.map(toRequestDomain)
+				.filter((host): host is string => !!host)
+		),
+	];
+	const excludedRequestDomains = excluded.length > 0 ? excluded : undefined;
+
+	const createRule = (
+		id: number,
+		priority: number,
+		removeParams: string[],
+		condition: chrome.declarativeNetRequest.RuleCondition = {}
+	): DnrRule => ({
+		id,
+		priority,
+		action: {
+			type: "redirect" as chrome.declarativeNetRequest.RuleActionType,
+			redirect: { transform: { queryTransform: { removeParams } } },
+		},
+		condition: {
+			...condition,
+			excludedRequestDomains,
+			resourceTypes: [
+				"main_frame" as chrome.declarativeNetRequest.ResourceType,
+			],
+		},
+	});
+
+	const dnrRules = [createRule(RULE_ID_START, 1, globalParams)];
+	const nextId = () => RULE_ID_START + dnrRules.length;
+
+	// Wildcard policy hosts cannot be excluded by domain, a higher priority
+	// allow rule keeps their parameters instead. They come first so the
+	// rule ID range cannot run out before them.
+	const wildcardHosts = skipHosts.filter((host) => host.includes("*"));
+	for (const condition of toCondition(wildcardHosts)) {
+		if (nextId() >= RULE_ID_END) break;
+		dnrRules.push({
+			id: nextId(),
+			priority: 3,
+			action: {
+				type: "allow" as chrome.declarativeNetRequest.RuleActionType,
+			},
+			condition: {
+				...condition,
+				resourceTypes: [
+					"main_frame" as chrome.declarativeNetRequest.ResourceType,
+				],
+			},
+		});
+	}
+
+	// Only one redirect applies per request, so domain rules repeat the
+	// global parameters and take precedence with a higher priority
+	for (const rule of rules) {
+		const keep = (param: string) =>
+			!rule.keepParams?.some((pattern) =>
+				matchesParamPattern(param, pattern)
+			);
+		const dropParams = (rule.dropParams ?? []).filter(
+			(param) => !param.endsWith("*")
+		);
+		if (dropParams.length === 0) continue;
+
+		const removeParams = [
+			...new Set([...globalParams, ...dropParams]),
+		].filter(keep);
+
+		for (const condition of toCondition(rule.hosts)) {
+			if (nextId() >= RULE_ID_END) break;
+			dnrRules.push(createRule(nextId(), 2, removeParams, condition));
+		}
+	}
+
+	for (const provider of Object.values(providers)) {
+		if (provider.exceptions?.length) continue;
+		const names = plainParamNames([
+			...(provider.rules ?? []),
+			...(provider.referralMarketing ?? []),
+		]);
+		if (names.length === 0 || nextId() >= RULE_ID_END) continue;
+
+		const removeParams = [...new Set([...globalParams, ...names])];
+		dnrRules.push(
+			createRule(nextId(), 2, removeParams, {
+				regexFilter: provider.urlPattern,
+			})
+		);
+	}
+
+	return dnrRules;
+}
+
+/**
+ * Chrome rejects every rule of an update when one regexFilter is not
+ * supported (RE2 syntax, size limit), so such rules are dropped
+ */
+const isSupported = async (rule: DnrRule) => {
+	const regex = rule.condition.regexFilter;
+	if (!regex) return true;
+	const { isSupported } =
+		await chrome.declarativeNetRequest.isRegexSupported({ regex });
+	if (!isSupported) console.warn("[AutoClean] Unsupported pattern:", regex);
+	return isSupported;
+};
+
+/**
+ * Apply or remove the auto-clean rules based on the current settings
+ */
+export async function applyAutoClean(): Promise<void> {
+	if (typeof chrome === "undefined" || !chrome.declarativeNetRequest) {
+		console.warn("[AutoClean] declarativeNetRequest API not available");
+		return;
+	}
+
+	try {
+		const settings = await getCleanSettings();
+		const existingRules =
+			await chrome.declarativeNetRequest.getDynamicRules();
+		const removeRuleIds = existingRules
+			.map((rule) => rule.id)
+			.filter((id) => id >= RULE_ID_START && id < RULE_ID_END);
+
+		const addRules: DnrRule[] = [];
+		if (settings.autoClean) {
+			const rules = buildAutoCleanRules(
+				BUILT_IN_DOMAIN_RULES,
+				settings.autoCleanAllowlist,
+				await getDomainPolicies(),
+				mergeProviders(
+					await getCustomProviders(),
+					await getSubscriptionProviders()
+				)
+			);
+			for (const rule of rules) {
+				if (await isSupported(rule)) addRules.push(rule);
+			}
+		}
+
+		await chrome.declarativeNetRequest.updateDynamicRules({
+			removeRuleIds,
+			addRules,
+		});
+		console.log(
+			`[AutoClean] ${settings.autoClean ? "Enabled" : "Disabled"}, ${
+				addRules.length
+			} rules active`
+		);
+	} catch (error) {
+		// A failed update must not keep the caller (e.g. the context menu
+		// setup on install) from running
+		console.error("[AutoClean] Failed to apply rules:", error);
+	}
+}
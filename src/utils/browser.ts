@@ -6,6 +6,11 @@
  * Example: browser.sidePanel.setOptions(...) instead of chrome.sidePanel.setOptions(...)
  */
 
+import {
+	DOMAIN_POLICIES_STORAGE_KEY,
+	hasDomainPolicy,
+} from "~/logic/domainPolicy";
+
 /**
  * Cross-browser compatible sidePanel/sidebar API
  */
@@ -22,6 +27,7 @@ const sidePanel = {
 	 * Set sidebar panel options (enable/disable, set path)
 	 */
 	async setOptions(options: {
+		tabId?: number;
 		enabled?: boolean;
 		path?: string;
 	}): Promise<void> {
@@ -143,15 +149,32 @@ export const isNotificationDisabled = async (): Promise<boolean> => {
 	return result?.notifications === false;
 };
 
+/**
+ * Check if a domain policy mutes notifications about a page
+ */
+export const isNotificationMuted = async (url: string): Promise<boolean> => {
+	const result = await browser.storage?.sync.get([
+		DOMAIN_POLICIES_STORAGE_KEY,
+	]);
+	return hasDomainPolicy(
+		url,
+		result?.[DOMAIN_POLICIES_STORAGE_KEY] ?? [],
+		"mute-notifications"
+	);
+};
+
 /**
  * Helper: Show a simple notification with sensible defaults
+ * Pass the URL of the page the notification is about to apply domain policies
  */
 export async function showNotification(
 	title: string,
 	message: string,
-	force?: boolean
+	force?: boolean,
+	url?: string
 ): Promise<string> {
 	if ((await isNotificationDisabled()) && !force) return "";
+	if (url && !force && (await isNotificationMuted(url))) return "";
 	const iconUrl = chrome.runtime.getURL("./icons/icon-48.png");
 	const options: chrome.notifications.NotificationCreateOptions = {
 		type: "basic",
@@ -165,14 +188,17 @@ export async function showNotification(
 
 /**
  * Helper: Show a notification with action buttons
+ * Link the returned ID with linkNotification to handle the buttons
  */
 export async function showNotificationWithButtons(
 	title: string,
 	message: string,
 	buttons: { title: string }[],
-	force?: boolean
+	force?: boolean,
+	url?: string
 ): Promise<string> {
 	if ((await isNotificationDisabled()) && !force) return "";
+	if (url && !force && (await isNotificationMuted(url))) return "";
 	const iconUrl = chrome.runtime.getURL("./icons/icon-48.png");
 	const options: chrome.notifications.NotificationCreateOptions = {
 		type: "basic",
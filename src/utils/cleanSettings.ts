@@ -0,0 +1,139 @@
+import { browser } from "./browser";
+import type { CleanMode } from "~/logic/cleanCopyUrl";
+import type { TransformerConfig } from "~/logic/pipeline";
+import {
+	DEFAULT_NORMALIZE_OPTIONS,
+	type NormalizeOptions,
+} from "~/logic/normalizeUrl";
+import {
+	DEFAULT_AMP_PUBLISHERS,
+	DEFAULT_MOBILE_HOSTS,
+	type MobileHostMapping,
+} from "~/logic/deAmp";
+import {
+	DOMAIN_POLICIES_STORAGE_KEY,
+	type DomainPolicy,
+} from "~/logic/domainPolicy";
+import {
+	BUILT_IN_COPY_FORMATS,
+	PLAIN_COPY_FORMAT,
+	type CopyFormat,
+} from "~/logic/copyFormat";
+
+export interface CleanSettings {
+	mode: CleanMode;
+	keepFragment: boolean;
+	/** Strip tracking parameters on navigation (declarativeNetRequest) */
+	autoClean: boolean;
+	/** Domains that are never auto-cleaned */
+	autoCleanAllowlist: string[];
+	/** Use the page's canonical URL when cleaning the current page */
+	preferCanonical: boolean;
+	/** Order and enabled state of the cleaning pipeline steps */
+	transformers: TransformerConfig[];
+	normalize: NormalizeOptions;
+	/** Mobile hosts rewritten to their desktop host by the de-AMP step */
+	mobileHosts: MobileHostMapping[];
+	/** Publishers whose "/amp", ".amp" and "?amp" markers are removed */
+	ampPublishers: string[];
+}
+
+export const CLEAN_SETTINGS_STORAGE_KEY = "cleanSettings";
+
+export const DEFAULT_CLEAN_SETTINGS: CleanSettings = {
+	mode: "balanced",
+	keepFragment: false,
+	autoClean: false,
+	autoCleanAllowlist: [],
+	preferCanonical: false,
+	transformers: [],
+	normalize: DEFAULT_NORMALIZE_OPTIONS,
+	mobileHosts: DEFAULT_MOBILE_HOSTS,
+	ampPublishers: DEFAULT_AMP_PUBLISHERS,
+};
+
+/**
+ * Get the URL cleaning settings from storage
+ */
+export async function getCleanSettings(): Promise<CleanSettings> {
+	const result =
+		(await browser.storage?.sync.get([CLEAN_SETTINGS_STORAGE_KEY])) || {};
+	return { ...DEFAULT_CLEAN_SETTINGS, ...result[CLEAN_SETTINGS_STORAGE_KEY] };
+}
+
+/**
+ * Update the URL cleaning settings in storage
+ */
+export async function setCleanSettings(
+	settings: Partial<CleanSettings>
+): Promise<void> {
+	const current = await getCleanSettings();
+	await browser.storage?.sync.set({
+		[CLEAN_SETTINGS_STORAGE_KEY]: { ...current, ...settings },
+	});
+}
+
+export interface CopyFormatSettings {
+	/** IDs of the built-in formats shown in the context menu */
+	enabled: string[];
+	/** User-defined formats */
+	custom: CopyFormat[];
+}
+
+const COPY_FORMATS_STORAGE_KEY = "copyFormats";
+
+export const DEFAULT_COPY_FORMAT_SETTINGS: CopyFormatSettings = {
+	enabled: ["markdown", "html", "rich", "org"],
+	custom: [],
+};
+
+/**
+ * Get the copy format settings from storage
+ */
+export async function getCopyFormatSettings(): Promise<CopyFormatSettings> {
+	const result =
+		(await browser.storage?.sync.get([COPY_FORMATS_STORAGE_KEY])) || {};
+	return {
+		...DEFAULT_COPY_FORMAT_SETTINGS,
+		...result[COPY_FORMATS_STORAGE_KEY],
+	};
+}
+
+/**
+ * Set the copy format settings in storage
+ */
+export async function setCopyFormatSettings(
+	settings: CopyFormatSettings
+): Promise<void> {
+	await browser.storage?.sync.set({ [COPY_FORMATS_STORAGE_KEY]: settings });
+}
+
+/**
+ * Get the formats to offer next to the plain "Clean Copy URL" entry
+ */
+export async function getCopyFormats(): Promise<CopyFormat[]> {
+	const { enabled, custom } = await getCopyFormatSettings();
+	const builtIn = BUILT_IN_COPY_FORMATS.filter(
+		(format) =>
+			format.id !== PLAIN_COPY_FORMAT.id && enabled.includes(format.id)
+	);
+	return [...builtIn, ...custom];
+}
+
+/**
+ * Get the per-domain policies from storage
+ */
+export async function getDomainPolicies(): Promise<DomainPolicy[]> {
+	const result =
+		(await browser.storage?.sync.get([DOMAIN_POLICIES_STORAGE_KEY])) || {};
+	return result[DOMAIN_POLICIES_STORAGE_KEY] || [];
+}
+
+/**
+ * Replace the per-domain policies in storage
+ */
+export async function setDomainPolicies(
+	policies: DomainPolicy[]
+): Promise<void> {
+	await browser.storage?.sync.set({ [DOMAIN_POLICIES_STORAGE_KEY]: policies });
+}
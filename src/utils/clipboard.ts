@@ -0,0 +1,171 @@
+/**
+ * Clipboard service for the background worker.
+ * Writes through the page tab first and falls back to an offscreen document,
+ * which also works on chrome:// pages, PDF viewers and unfocused tabs.
+ */
+
+export type ClipboardMethod = "tab" | "offscreen";
+
+export interface ClipboardResult {
+	success: boolean;
+	method?: ClipboardMethod;
+	error?: string;
+}
+
+/**
+ * Message sent to the offscreen document
+ */
+export interface ClipboardWriteMessage {
+	target: "offscreen";
+	type: "clipboard-write";
+	text: string;
+	html?: string;
+}
+
+export const OFFSCREEN_DOCUMENT_PATH = "src/offscreen/index.html";
+
+const errorMessage = (error: unknown) =>
+	error instanceof Error ? error.message : String(error);
+
+/**
+ * Write to the clipboard from inside a tab.
+ * The injected function reports its own failures instead of swallowing them.
+ */
+export async function writeClipboardInTab(
+	tabId: number,
+	text: string,
+	html?: string
+): Promise<ClipboardResult> {
+	try {
+		const results = await chrome.scripting.executeScript({
+			target: { tabId },
+			func: async (text: string, html?: string) => {
+				try {
+					// Rich formats write both text/plain and text/html
+					if (html) {
+						await navigator.clipboard.write([
+							new ClipboardItem({
+								"text/plain": new Blob([text], {
+									type: "text/plain",
+								}),
+								"text/html": new Blob([html], {
+									type: "text/html",
+								}),
+							}),
+						]);
+					} else {
+						await navigator.clipboard.writeText(text);
+					}
+					return { success: true };
+				} catch (err) {
+					return { success: false, error: String(err) };
+				}
+			},
+			args: html ? [text, html] : [text],
+			injectImmediately: true,
+		});
+
+		const result = results?.[0]?.result;
+		if (result?.success) return { success: true, method: "tab" };
+		return {
+			success: false,
+			method: "tab",
+			error: result?.error ?? "No result from the tab",
+		};
+	} catch (error) {
+		return { success: false, method: "tab", error: errorMessage(error) };
+	}
+}
+
+let creatingOffscreenDocument: Promise<void> | null = null;
+
+/**
+ * Create the offscreen document unless it is already open
+ */
+async function ensureOffscreenDocument(): Promise<void> {
+	const contexts = await chrome.runtime.getContexts({
+		contextTypes: [
+			"OFFSCREEN_DOCUMENT" as chrome.runtime.ContextType,
+		],
+		documentUrls: [chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH)],
+	});
+	if (contexts.length > 0) return;
+
+	// Concurrent copies share a single creation
+	creatingOffscreenDocument ??= chrome.offscreen
+		.createDocument({
+			url: OFFSCREEN_DOCUMENT_PATH,
+			reasons: ["CLIPBOARD" as chrome.offscreen.Reason],
+			justification: "Write cleaned URLs to the clipboard",
+		})
+		.finally(() => {
+			creatingOffscreenDocument = null;
+		});
+	await creatingOffscreenDocument;
+}
+
+/**
+ * Write to the clipboard through the offscreen document
+ */
+export async function writeClipboardOffscreen(
+	text: string,
+	html?: string
+): Promise<ClipboardResult> {
+	if (typeof chrome === "undefined" || !chrome.offscreen) {
+		return {
+			success: false,
+			method: "offscreen",
+			error: "offscreen API not available",
+		};
+	}
+
+	try {
+		await ensureOffscreenDocument();
+		const message: ClipboardWriteMessage = {
+			target: "offscreen",
+			type: "clipboard-write",
+			text,
+			html,
+		};
+		const result: ClipboardResult | undefined =
+			await chrome.runtime.sendMessage(message);
+		return {
+			success: result?.success ?? false,
+			method: "offscreen",
+			error: result?.success
+				? undefined
+				: result?.error ?? "No response from the offscreen document",
+		};
+	} catch (error) {
+		return {
+			success: false,
+			method: "offscreen",
+			error: errorMessage(error),
+		};
+	}
+}
+
+/**
+ * Write text (and optional HTML) to the clipboard, trying the tab first
+ * and the offscreen document second
+ */
+export async function writeClipboard(
+	tabId: number | undefined,
+	text: string,
+	html?: string
+): Promise<ClipboardResult> {
+	if (tabId !== undefined) {
+		const result = await writeClipboardInTab(tabId, text, html);
+		if (result.success) return result;
+		console.warn(
+			"[Clipboard] Tab write failed, using offscreen document:",
+			result.error
+		);
+	}
+
+	const result = await writeClipboardOffscreen(text, html);
+	if (!result.success) {
+		console.warn("[Clipboard] Offscreen write failed:", result.error);
+	}
+	return result;
+}
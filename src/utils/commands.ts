@@ -0,0 +1,91 @@
+import { browser } from "./browser";
+import type { ContextMenuItem } from "./contextMenu";
+import { cleanCopyUrlAction } from "~/logic/cleanCopyUrl";
+import {
+	openSidebarAction,
+	toggleDisplayModeAction,
+} from "~/logic/displayModeActions";
+
+/**
+ * Keyboard commands declared in the manifest, mapped to the same actions
+ * the context menu uses
+ */
+export const COMMAND_ACTIONS: Record<string, () => ContextMenuItem> = {
+	"clean-copy-url": cleanCopyUrlAction,
+	"toggle-display-mode": toggleDisplayModeAction,
+	"open-sidebar": openSidebarAction,
+};
+
+export interface CommandBinding {
+	name: string;
+	description: string;
+	/** Empty when no shortcut is assigned */
+	shortcut: string;
+}
+
+/**
+ * Run the action bound to a command.
+ * Commands have no selection, so actions behave as in the page context.
+ */
+export async function dispatchCommand(
+	command: string,
+	tab?: chrome.tabs.Tab
+): Promise<boolean> {
+	const createAction = COMMAND_ACTIONS[command];
+	if (!createAction) {
+		console.warn("[Commands] Unknown command:", command);
+		return false;
+	}
+
+	// Only look up the tab when the browser did not pass it, so actions
+	// that need the user gesture (sidePanel.open) still run first
+	const currentTab =
+		tab ??
+		(await chrome.tabs?.query({ active: true, currentWindow: true }))?.[0];
+
+	await createAction().action?.({
+		tab: (currentTab ?? {}) as chrome.tabs.Tab,
+		window: { id: currentTab?.windowId } as chrome.windows.Window,
+	});
+	return true;
+}
+
+/**
+ * Listen for keyboard commands
+ */
+export function setupCommands(): void {
+	if (typeof chrome === "undefined" || !chrome.commands) {
+		console.warn("[Commands] commands API not available");
+		return;
+	}
+
+	chrome.commands.onCommand.addListener((command, tab) => {
+		console.log("[Commands] Received command:", command);
+		dispatchCommand(command, tab);
+	});
+}
+
+/**
+ * Get the commands with their currently assigned shortcuts
+ */
+export async function getCommandBindings(): Promise<CommandBinding[]> {
+	if (typeof chrome === "undefined" || !chrome.commands) return [];
+
+	const commands = await chrome.commands.getAll();
+	return commands
+		.filter((command) => command.name && command.name in COMMAND_ACTIONS)
+		.map((command) => ({
+			name: command.name ?? "",
+			description: command.description ?? "",
+			shortcut: command.shortcut ?? "",
+		}));
+}
+
+/**
+ * URL of the browser's keyboard shortcut editor
+ */
+export function getShortcutSettingsUrl(): string {
+	return browser.is.edge()
+		? "edge://extensions/shortcuts"
+		: "chrome://extensions/shortcuts";
+}
@@ -1,43 +1,225 @@
+/**
+ * Checked state of a checkbox or radio item, kept in sync with storage
+ */
+export interface ContextMenuBinding {
+	/** Storage key whose changes refresh the checked state */
+	storageKey: string;
+	isChecked: () => Promise<boolean>;
+	/** Called with the new state when the item is clicked */
+	setChecked: (checked: boolean) => Promise<void>;
+}
+
+/**
+ * What the context menu was opened on, passed to the action of the clicked
+ * item. The fields besides `tab` and `window` come from `OnClickData`.
+ */
+export interface ContextMenuContext {
+	/** The tab the menu was opened in */
+	tab: chrome.tabs.Tab;
+	window: chrome.windows.Window;
+	/** Frame the context menu was opened in */
+	frameId?: number;
+	/** URL of the top-level page */
+	pageUrl?: string;
+	/** URL of the frame, when the menu was opened in one */
+	frameUrl?: string;
+	linkUrl?: string;
+	/** Source of the clicked image, video or audio */
+	srcUrl?: string;
+	mediaType?: string;
+	selectionText?: string;
+	editable?: boolean;
+}
+
 export interface ContextMenuItem {
+	/**
+	 * Stable ID, which lets `addToChrome` update the item in place.
+	 * Items without one get a positional ID.
+	 */
+	id?: string;
 	title: string;
 	contexts?: chrome.contextMenus.CreateProperties["contexts"];
-	action: (context: {
-		tab: chrome.tabs.Tab;
-		window: chrome.windows.Window;
-		selection?: string;
-	}) => Promise<void>;
+	/** Defaults to "normal" */
+	type?: chrome.contextMenus.CreateProperties["type"];
+	enabled?: boolean;
+	visible?: boolean;
+	/** Match patterns of the pages the item shows on */
+	documentUrlPatterns?: string[];
+	/** Match patterns of the links, images and media the item shows for */
+	targetUrlPatterns?: string[];
+	/**
+	 * Show the item only while this holds for the active tab. It is evaluated
+	 * again when tabs are activated or updated.
+	 */
+	when?: (tab: chrome.tabs.Tab) => boolean | Promise<boolean>;
+	/** Checked state of checkbox and radio items */
+	checked?: ContextMenuBinding;
+	/** Items of the submenu, they inherit the contexts of their parent */
+	children?: ContextMenuItem[];
+	action?: (context: ContextMenuContext) => Promise<void>;
 }
 
+/**
+ * Fields of an item that `update` can change
+ */
+export type ContextMenuItemPatch = Partial<
+	Pick<ContextMenuItem, "title" | "contexts" | "enabled" | "visible">
+>;
+
+type MenuProperties = chrome.contextMenus.CreateProperties & { id: string };
+
 export class ContextMenu {
 	private menuItems: ContextMenuItem[] = [];
-	private readonly menuItemsMap: Map<string, ContextMenuItem> = new Map(); // Track items by ID
+	/** Pending `load` calls, clicks wait for them before routing */
+	private loading: Promise<void> = Promise.resolve();
+	/** Properties of the items as they were last sent to Chrome */
+	private created: Map<string, MenuProperties> = new Map();
+	private synced = false;
+	private rebuilding = false;
+	/** Results of the `when` predicates for the active tab */
+	private readonly predicates: Map<string, boolean> = new Map();
 
 	constructor() {
 		this.menuItems = [];
 		this.setupClickListener();
+		this.setupStorageListener();
+		this.setupTabListeners();
 	}
 
 	private async setupClickListener() {
 		// Set up the click listener for context menu items
 
-		chrome.contextMenus.onClicked.addListener(async (info) => {
-			const menuItem = this.menuItemsMap.get(info.menuItemId as string);
-			const currentWindow = await chrome.windows?.getCurrent();
-			const currentTab = await chrome.tabs?.query({
-				active: true,
-				currentWindow: true,
+		chrome.contextMenus?.onClicked.addListener(async (info, tab) => {
+			// A click can wake the worker before its items are registered
+			await this.loading;
+			const menuItem = this.resolve().get(String(info.menuItemId))?.item;
+
+			if (menuItem?.checked) {
+				await menuItem.checked.setChecked(!!info.checked);
+			}
+			if (!menuItem?.action) return;
+
+			// Menus outside of tabs (e.g. the side panel) have no tab
+			const clickedTab =
+				tab ??
+				(
+					await chrome.tabs?.query({
+						active: true,
+						currentWindow: true,
+					})
+				)?.[0];
+			const clickedWindow =
+				clickedTab?.windowId !== undefined
+					? await chrome.windows?.get(clickedTab.windowId)
+					: await chrome.windows?.getCurrent();
+
+			menuItem.action({
+				tab: clickedTab as chrome.tabs.Tab,
+				window: (clickedWindow || {}) as chrome.windows.Window,
+				frameId: info.frameId,
+				pageUrl: info.pageUrl,
+				frameUrl: info.frameUrl,
+				linkUrl: info.linkUrl,
+				srcUrl: info.srcUrl,
+				mediaType: info.mediaType,
+				selectionText: info.selectionText,
+				editable: info.editable,
 			});
+		});
+	}
 
-			const selectedTextOrLink = info.selectionText || info.linkUrl || "";
+	private setupStorageListener() {
+		// Keep checkbox and radio items in sync with the settings they show
+		chrome.storage?.onChanged.addListener((changes) => {
+			for (const [menuId, { item }] of this.resolve()) {
+				// Items that are not in Chrome yet get their state on creation
+				if (this.synced && !this.created.has(menuId)) continue;
+				if (item.checked && item.checked.storageKey in changes) {
+					this.refreshChecked(menuId, item);
+				}
+			}
+		});
+	}
 
-			if (menuItem) {
-				menuItem.action({
-					tab: (currentTab
-						? currentTab[0]
-						: undefined) as chrome.tabs.Tab,
-					window: (currentWindow || {}) as chrome.windows.Window,
-					selection: selectedTextOrLink,
-				});
+	private setupTabListeners() {
+		// Items with a `when` predicate follow the active tab
+		chrome.tabs?.onActivated?.addListener(async ({ tabId }) => {
+			let tab: chrome.tabs.Tab | undefined;
+			try {
+				tab = await chrome.tabs.get(tabId);
+			} catch (error) {
+				// The tab was closed before it could be looked up
+				console.debug("[ContextMenu] Activated tab is gone:", error);
+				return;
+			}
+			if (tab) await this.refreshVisibility(tab);
+		});
+		chrome.tabs?.onUpdated?.addListener(async (_tabId, changeInfo, tab) => {
+			if (tab.active && (changeInfo.url || changeInfo.status === "complete")) {
+				await this.refreshVisibility(tab);
+			}
+		});
+	}
+
+	private async refreshActiveTab() {
+		const [tab] =
+			(await chrome.tabs?.query({ active: true, currentWindow: true })) ||
+			[];
+		if (tab) await this.refreshVisibility(tab);
+	}
+
+	/**
+	 * Evaluate the `when` predicates against a tab and show or hide the
+	 * items whose result changed
+	 */
+	async refreshVisibility(tab: chrome.tabs.Tab) {
+		await this.loading;
+		const changed: string[] = [];
+		for (const [menuId, { item }] of this.resolve()) {
+			if (!item.when) continue;
+			let visible = false;
+			try {
+				visible = await item.when(tab);
+			} catch (error) {
+				console.warn("[ContextMenu] Visibility check failed:", menuId, error);
+			}
+			// Items are shown until their predicate was checked
+			if ((this.predicates.get(menuId) ?? true) !== visible) {
+				changed.push(menuId);
+			}
+			this.predicates.set(menuId, visible);
+		}
+		if (changed.length === 0) return;
+
+		if (this.synced) {
+			this.addToChrome();
+		} else {
+			// The items of a previous worker are still in Chrome
+			const resolved = this.resolve();
+			for (const menuId of changed) {
+				const visible = resolved.get(menuId)?.properties.visible;
+				this.updateInChrome(menuId, { visible: visible ?? true });
+			}
+		}
+	}
+
+	private async refreshChecked(menuId: string, item: ContextMenuItem) {
+		const checked = await item.checked?.isChecked();
+		this.updateInChrome(menuId, { checked });
+	}
+
+	/**
+	 * Update an item that may not be in Chrome yet, e.g. right after the
+	 * extension was installed. Such items get their state when created.
+	 */
+	private updateInChrome(
+		menuId: string,
+		properties: Omit<chrome.contextMenus.CreateProperties, "id">
+	) {
+		chrome.contextMenus?.update(menuId, properties, () => {
+			const error = chrome.runtime?.lastError;
+			if (error) {
+				console.debug("[ContextMenu] Item not in Chrome:", menuId, error);
 			}
 		});
 	}
@@ -53,19 +235,24 @@ export class ContextMenu {
 
 		// Create a localized version of the menu item
 		const localizedItem: ContextMenuItem = {
+			...item.action,
 			title: item.title,
-			action: async (args) => {
-				return item.action.action(args);
-			},
+			contexts: item.action.contexts,
+			action: item.action.action
+				? async (args) => {
+						return item.action.action?.(args);
+					}
+				: undefined,
 		}; // item.action is ContextMenuItem, so we need .action property
 
 		if (operation === "add") {
 			this.addItem(localizedItem);
 		} else if (operation === "remove") {
-			// For removal, we need to find items with matching title pattern
-			// This is still problematic because we can't easily match by reference
+			// Items are matched by ID, the title only identifies items
+			// registered without one
+			const id = item.action.id;
 			const itemsToRemove = this.menuItems.filter((menuItem) =>
-				menuItem.title.startsWith(item.title)
+				id ? menuItem.id === id : menuItem.title === item.title
 			);
 			for (const itemToRemove of itemsToRemove) {
 				this.removeItem(itemToRemove);
@@ -75,13 +262,82 @@ export class ContextMenu {
 		return this;
 	}
 
-	addItem(item: ContextMenuItem) {
-		this.menuItems.push(item);
+	/**
+	 * Register the items with `build`. Builds run one after another and
+	 * clicks that arrive meanwhile are routed once they are done.
+	 */
+	load(build: (menu: this) => void | Promise<void>) {
+		this.loading = this.loading
+			.then(() => build(this))
+			.catch((error) => {
+				console.error("[ContextMenu] Failed to register items:", error);
+			});
+		return this.loading;
+	}
+
+	/**
+	 * Resolves once the pending `load` calls are done
+	 */
+	whenLoaded() {
+		return this.loading;
+	}
+
+	/**
+	 * Add an item to the top level, or to the submenu of `parent`.
+	 * An item with the ID of an existing sibling replaces it.
+	 */
+	addItem(item: ContextMenuItem, parent?: ContextMenuItem) {
+		const items = parent ? [...(parent.children || [])] : this.menuItems;
+		const index = item.id ? items.findIndex((i) => i.id === item.id) : -1;
+		if (index >= 0) {
+			items[index] = item;
+		} else {
+			items.push(item);
+		}
+		if (parent) parent.children = items;
 		return this;
 	}
 
+	addSeparator(parent?: ContextMenuItem) {
+		return this.addItem({ title: "", type: "separator" }, parent);
+	}
+
+	/**
+	 * Remove an item wherever it is in the tree
+	 */
 	removeItem(item: ContextMenuItem) {
-		this.menuItems = this.menuItems.filter((i) => i !== item);
+		const remove = (items: ContextMenuItem[]): ContextMenuItem[] =>
+			items
+				.filter((i) => i !== item)
+				.map((i) => {
+					if (i.children) i.children = remove(i.children);
+					return i;
+				});
+		this.menuItems = remove(this.menuItems);
+		return this;
+	}
+
+	/**
+	 * Remove the item with the given ID and its submenu
+	 */
+	removeById(id: string) {
+		const item = this.resolve().get(id)?.item;
+		if (item) this.removeItem(item);
+		if (this.synced) this.addToChrome();
+		return this;
+	}
+
+	/**
+	 * Change an item, updating it in Chrome when the menu was already added
+	 */
+	update(id: string, patch: ContextMenuItemPatch) {
+		const item = this.resolve().get(id)?.item;
+		if (!item) {
+			console.warn("[ContextMenu] Unknown menu item:", id);
+			return this;
+		}
+		Object.assign(item, patch);
+		if (this.synced) this.addToChrome();
 		return this;
 	}
 
@@ -89,29 +345,165 @@ export class ContextMenu {
 		return this.menuItems;
 	}
 
-	// Add to chrome context menu
+	/**
+	 * The Chrome properties of every item in the tree, in menu order
+	 */
+	private resolve() {
+		const resolved = new Map<
+			string,
+			{ item: ContextMenuItem; properties: MenuProperties }
+		>();
+		const visit = (
+			items: ContextMenuItem[],
+			parentId?: string,
+			parentContexts?: ContextMenuItem["contexts"]
+		) => {
+			for (let i = 0; i < items.length; i++) {
+				const item = items[i];
+				const menuId =
+					item.id || (parentId ? `${parentId}-${i}` : `menu-item-${i}`);
+				if (resolved.has(menuId)) {
+					console.warn("[ContextMenu] Duplicate menu item ID:", menuId);
+					continue;
+				}
+				const contexts = item?.contexts || parentContexts || ["all"];
+
+				const properties: MenuProperties = {
+					id: menuId,
+					title: item.title,
+					contexts,
+					type: item.type || "normal",
+				};
+				if (parentId) properties.parentId = parentId;
+				if (item.enabled !== undefined) properties.enabled = item.enabled;
+				// Hidden by the flag or by the last result of its predicate
+				const visible =
+					item.visible === false || this.predicates.get(menuId) === false
+						? false
+						: item.visible;
+				if (visible !== undefined) properties.visible = visible;
+				if (item.documentUrlPatterns) {
+					properties.documentUrlPatterns = item.documentUrlPatterns;
+				}
+				if (item.targetUrlPatterns) {
+					properties.targetUrlPatterns = item.targetUrlPatterns;
+				}
+				resolved.set(menuId, { item, properties });
+
+				if (item.children) visit(item.children, menuId, contexts);
+			}
+		};
+		visit(this.menuItems);
+		return resolved;
+	}
+
+	private createItem(properties: MenuProperties, item: ContextMenuItem) {
+		console.log("Adding context menu item:", item.title);
+		chrome.contextMenus?.create(properties);
+		// The stored state is read after creation, which keeps the order
+		if (item.checked) this.refreshChecked(properties.id, item);
+	}
+
+	/**
+	 * Chrome appends new items to their parent and cannot reorder them, so
+	 * moved items and insertions before existing items need a rebuild
+	 */
+	private needsRebuild(desired: Map<string, MenuProperties>) {
+		const siblings = (menu: Map<string, MenuProperties>) => {
+			const groups = new Map<string, string[]>();
+			for (const [id, properties] of menu) {
+				const parent = String(properties.parentId ?? "");
+				groups.set(parent, [...(groups.get(parent) || []), id]);
+			}
+			return groups;
+		};
+
+		for (const [id, properties] of desired) {
+			const current = this.created.get(id);
+			if (current && current.parentId !== properties.parentId) return true;
+		}
+
+		const before = siblings(this.created);
+		for (const [parent, ids] of siblings(desired)) {
+			const kept = ids.filter((id) => this.created.has(id)).join("\n");
+			const existing = (before.get(parent) || [])
+				.filter((id) => desired.has(id))
+				.join("\n");
+			const leading = ids
+				.slice(0, ids.filter((id) => this.created.has(id)).length)
+				.join("\n");
+			if (kept !== existing || leading !== kept) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Add the menu to Chrome. The first call replaces whatever a previous
+	 * worker created, later calls only create, update or remove the items
+	 * that changed.
+	 */
 	addToChrome() {
-		// Clear existing menu items map
-		this.menuItemsMap.clear();
+		const resolved = this.resolve();
+		const desired = new Map(
+			[...resolved].map(([id, { properties }]) => [id, properties])
+		);
 
-		chrome.contextMenus?.removeAll(() => {
-			for (let i = 0; i < this.menuItems.length; i++) {
-				const item = this.menuItems[i];
-				const menuId = `menu-item-${i}`;
+		// New items with a predicate are checked against the active tab
+		const unchecked = [...resolved].some(
+			([id, { item }]) => item.when && !this.predicates.has(id)
+		);
+		if (unchecked) this.refreshActiveTab();
 
-				console.log("Adding context menu item:", item.title);
+		if (this.rebuilding) {
+			// The pending rebuild creates the latest items
+			this.created = desired;
+			return this;
+		}
 
-				// Store the item in our map for the click handler
-				this.menuItemsMap.set(menuId, item);
+		if (!this.synced || this.needsRebuild(desired)) {
+			this.synced = true;
+			this.rebuilding = true;
+			this.created = desired;
+			chrome.contextMenus?.removeAll(() => {
+				this.rebuilding = false;
+				const items = this.resolve();
+				for (const [id, properties] of this.created) {
+					const item = items.get(id)?.item;
+					if (item) this.createItem(properties, item);
+				}
+			});
+			if (!chrome.contextMenus) this.rebuilding = false;
+			return this;
+		}
 
-				chrome.contextMenus?.create({
-					id: menuId,
-					title: item.title,
-					contexts: item?.contexts || ["all"],
-					type: "normal",
+		for (const [id, properties] of this.created) {
+			// Removing an item also removes its submenu
+			const parentId = properties.parentId as string | undefined;
+			if (!desired.has(id) && !(parentId && !desired.has(parentId))) {
+				chrome.contextMenus?.remove(id);
+			}
+		}
+		for (const [id, { item, properties }] of resolved) {
+			const current = this.created.get(id);
+			if (!current) {
+				this.createItem(properties, item);
+			} else if (JSON.stringify(current) !== JSON.stringify(properties)) {
+				const { id: _, ...changes } = properties;
+				chrome.contextMenus?.update(id, {
+					...changes,
+					enabled: properties.enabled ?? true,
+					visible: properties.visible ?? true,
 				});
 			}
-		});
+		}
+		this.created = desired;
 		return this;
 	}
 }
+
+/**
+ * The menu of the extension. Importing it registers the click listener, so
+ * the background must import it at the top level: a suspended worker is
+ * restarted by the click and only sees listeners added on its first run.
+ */
+export const contextMenu = new ContextMenu();
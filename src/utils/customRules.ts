@@ -0,0 +1,25 @@
+import { browser } from "./browser";
+import type { ClearUrlsProviders } from "~/logic/clearUrls";
+
+/**
+ * Custom rules can be large (ClearURLs lists), so they live in local storage
+ */
+export const CUSTOM_RULES_STORAGE_KEY = "customProviders";
+
+/**
+ * Get the user's custom rules (ClearURLs providers) from storage
+ */
+export async function getCustomProviders(): Promise<ClearUrlsProviders> {
+	const result =
+		(await browser.storage?.local.get([CUSTOM_RULES_STORAGE_KEY])) || {};
+	return result[CUSTOM_RULES_STORAGE_KEY] || {};
+}
+
+/**
+ * Replace the user's custom rules in storage
+ */
+export async function setCustomProviders(
+	providers: ClearUrlsProviders
+): Promise<void> {
+	await browser.storage?.local.set({ [CUSTOM_RULES_STORAGE_KEY]: providers });
+}
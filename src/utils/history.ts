@@ -0,0 +1,124 @@
+import { browser } from "./browser";
+
+export interface HistoryEntry {
+	id: string;
+	originalUrl: string;
+	cleanedUrl: string;
+	title: string;
+	timestamp: number;
+	/** Names of the rules that changed the URL */
+	rules: string[];
+}
+
+export type HistoryExportFormat = "json" | "csv";
+
+export const HISTORY_STORAGE_KEY = "cleanHistory";
+
+/**
+ * Maximum number of entries kept, oldest entries are dropped first
+ */
+export const MAX_HISTORY_ENTRIES = 200;
+
+/**
+ * Get the clean-copy history from local storage, newest first
+ */
+export async function getHistory(): Promise<HistoryEntry[]> {
+	const result =
+		(await browser.storage?.local.get([HISTORY_STORAGE_KEY])) || {};
+	return result[HISTORY_STORAGE_KEY] || [];
+}
+
+/**
+ * Record clean copies in the history
+ */
+export async function addHistoryEntries(
+	entries: Omit<HistoryEntry, "id" | "timestamp">[]
+): Promise<HistoryEntry[]> {
+	const timestamp = Date.now();
+	const newEntries: HistoryEntry[] = entries.map((entry) => ({
+		...entry,
+		id: crypto.randomUUID(),
+		timestamp,
+	}));
+	const history = await getHistory();
+	// Newest first: the last entry of a batch ends up on top
+	const updated = [...newEntries].reverse().concat(history);
+	await browser.storage?.local.set({
+		[HISTORY_STORAGE_KEY]: updated.slice(0, MAX_HISTORY_ENTRIES),
+	});
+	return newEntries;
+}
+
+/**
+ * Record a single clean copy in the history
+ */
+export async function addHistoryEntry(
+	entry: Omit<HistoryEntry, "id" | "timestamp">
+): Promise<HistoryEntry> {
+	const [newEntry] = await addHistoryEntries([entry]);
+	return newEntry;
+}
+
+/**
+ * Remove a single entry from the history
+ */
+export async function removeHistoryEntry(id: string): Promise<void> {
+	const history = await getHistory();
+	await browser.storage?.local.set({
+		[HISTORY_STORAGE_KEY]: history.filter((entry) => entry.id !== id),
+	});
+}
+
+/**
+ * Remove all entries from the history
+ */
+export async function clearHistory(): Promise<void> {
+	await browser.storage?.local.set({ [HISTORY_STORAGE_KEY]: [] });
+}
+
+/**
+ * Filter history entries by a case-insensitive search query
+ */
+export function searchHistory(
+	entries: HistoryEntry[],
+	query: string
+): HistoryEntry[] {
+	const needle = query.trim().toLowerCase();
+	if (!needle) return entries;
+
+	return entries.filter((entry) =>
+		[entry.title, entry.originalUrl, entry.cleanedUrl, ...entry.rules].some(
+			(value) => value.toLowerCase().includes(needle)
+		)
+	);
+}
+
+const toCsvValue = (value: string) =>
+	/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serialize history entries for export
+ */
+export function exportHistory(
+	entries: HistoryEntry[],
+	format: HistoryExportFormat
+): string {
+	if (format === "json") {
+		return JSON.stringify(entries, null, 2);
+	}
+
+	const header = ["timestamp", "title", "originalUrl", "cleanedUrl", "rules"];
+	const rows = entries.map((entry) =>
+		[
+			new Date(entry.timestamp).toISOString(),
+			entry.title,
+			entry.originalUrl,
+			entry.cleanedUrl,
+			entry.rules.join("; "),
+		]
+			.map(toCsvValue)
+			.join(",")
+	);
+
+	return [header.join(","), ...rows].join("\n");
+}
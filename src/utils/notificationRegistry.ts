@@ -0,0 +1,138 @@
+import { browser } from "./browser";
+
+/**
+ * Callbacks for notifications of one kind, called with the data linked to
+ * the notification
+ */
+export interface NotificationHandler<T = unknown> {
+	onButtonClicked?: (data: T, buttonIndex: number) => void | Promise<void>;
+	onClicked?: (data: T) => void | Promise<void>;
+	onClosed?: (data: T) => void | Promise<void>;
+}
+
+interface LinkedNotification {
+	kind: string;
+	data: unknown;
+}
+
+/**
+ * Links are mirrored to session storage because notifications outlive the
+ * service worker, which loses everything in memory when it is suspended
+ */
+export const NOTIFICATION_STORAGE_KEY = "linkedNotifications";
+
+const handlers = new Map<string, NotificationHandler>();
+const linked = new Map<string, LinkedNotification>();
+let restoring: Promise<void> | undefined;
+
+const session = () => browser.storage?.session;
+
+// Restore the links of a previous worker instance once, events that
+// arrive meanwhile wait for the same restore
+const restore = () =>
+	(restoring ??= (async () => {
+		const result =
+			(await session()?.get([NOTIFICATION_STORAGE_KEY])) || {};
+		const stored: Record<string, LinkedNotification> =
+			result[NOTIFICATION_STORAGE_KEY] || {};
+		for (const [id, link] of Object.entries(stored)) {
+			if (!linked.has(id)) linked.set(id, link);
+		}
+	})());
+
+const persist = async () => {
+	await session()?.set({
+		[NOTIFICATION_STORAGE_KEY]: Object.fromEntries(linked),
+	});
+};
+
+/**
+ * Register the callbacks for a kind of notification.
+ * Register at module load so they exist again when the worker restarts.
+ */
+export function registerNotificationHandler<T>(
+	kind: string,
+	handler: NotificationHandler<T>
+): () => void {
+	// The data linked to a notification of this kind is always a T
+	const stored = handler as NotificationHandler;
+	handlers.set(kind, stored);
+	return () => {
+		if (handlers.get(kind) === stored) handlers.delete(kind);
+	};
+}
+
+/**
+ * Link a shown notification to a handler kind and the data its callbacks need
+ */
+export async function linkNotification<T>(
+	notificationId: string,
+	kind: string,
+	data: T
+): Promise<void> {
+	if (!notificationId) return;
+	await restore();
+	linked.set(notificationId, { kind, data });
+	await persist();
+}
+
+/**
+ * Remove the link of a notification
+ */
+export async function unlinkNotification(
+	notificationId: string
+): Promise<void> {
+	await restore();
+	if (!linked.delete(notificationId)) return;
+	await persist();
+}
+
+const dispatch = async (
+	notificationId: string,
+	call: (handler: NotificationHandler, data: unknown) => unknown
+) => {
+	await restore();
+	const link = linked.get(notificationId);
+	const handler = link && handlers.get(link.kind);
+	if (!link || !handler) return;
+
+	try {
+		await call(handler, link.data);
+	} catch (error) {
+		console.error("[Notifications] Handler failed:", link.kind, error);
+	}
+};
+
+/**
+ * Route notification events to the registered handlers.
+ * Buttons and clicks dismiss the notification, closing it drops the link.
+ */
+export function setupNotificationHandlers(): void {
+	if (typeof chrome === "undefined" || !chrome.notifications) {
+		console.warn("[Notifications] notifications API not available");
+		return;
+	}
+
+	chrome.notifications.onButtonClicked.addListener(
+		async (notificationId, buttonIndex) => {
+			await dispatch(notificationId, (handler, data) =>
+				handler.onButtonClicked?.(data, buttonIndex)
+			);
+			chrome.notifications.clear(notificationId);
+		}
+	);
+
+	chrome.notifications.onClicked.addListener(async (notificationId) => {
+		await dispatch(notificationId, (handler, data) =>
+			handler.onClicked?.(data)
+		);
+		chrome.notifications.clear(notificationId);
+	});
+
+	chrome.notifications.onClosed.addListener(async (notificationId) => {
+		await dispatch(notificationId, (handler, data) =>
+			handler.onClosed?.(data)
+		);
+		await unlinkNotification(notificationId);
+	});
+}
@@ -0,0 +1,222 @@
+import { browser } from "./browser";
+import {
+	mergeProviders,
+	parseClearUrlsJson,
+	type ClearUrlsProviders,
+} from "~/logic/clearUrls";
+
+/**
+ * Remote rule list in the ClearURLs format
+ */
+export interface RuleSubscription {
+	url: string;
+	/** Optional pin of the list content: "sha256-<base64 digest>" */
+	integrity?: string;
+}
+
+/**
+ * Last good copy of a rule list and the outcome of the last update
+ */
+export interface SubscriptionCache {
+	providers: ClearUrlsProviders;
+	etag?: string;
+	lastModified?: string;
+	/** Integrity pin the copy was verified against */
+	integrity?: string;
+	/** Time of the last update attempt */
+	checkedAt?: number;
+	/** Time the copy was last replaced */
+	updatedAt?: number;
+	/** Error of the last update attempt */
+	error?: string;
+}
+
+export const SUBSCRIPTIONS_STORAGE_KEY = "ruleSubscriptions";
+
+/**
+ * Rule lists can be large (ClearURLs lists), so copies live in local storage
+ */
+export const SUBSCRIPTION_CACHE_STORAGE_KEY = "ruleSubscriptionCache";
+
+export const SUBSCRIPTION_ALARM = "update-rule-subscriptions";
+
+const UPDATE_INTERVAL_MINUTES = 6 * 60;
+
+/**
+ * Get the subscribed rule lists from storage
+ */
+export async function getSubscriptions(): Promise<RuleSubscription[]> {
+	const result =
+		(await browser.storage?.sync.get([SUBSCRIPTIONS_STORAGE_KEY])) || {};
+	return result[SUBSCRIPTIONS_STORAGE_KEY] || [];
+}
+
+/**
+ * Replace the subscribed rule lists in storage
+ */
+export async function setSubscriptions(
+	subscriptions: RuleSubscription[]
+): Promise<void> {
+	await browser.storage?.sync.set({
+		[SUBSCRIPTIONS_STORAGE_KEY]: subscriptions,
+	});
+}
+
+/**
+ * Get the cached copies of the rule lists, by URL
+ */
+export async function getSubscriptionCache(): Promise<
+	Record<string, SubscriptionCache>
+> {
+	const result =
+		(await browser.storage?.local.get([SUBSCRIPTION_CACHE_STORAGE_KEY])) ||
+		{};
+	return result[SUBSCRIPTION_CACHE_STORAGE_KEY] || {};
+}
+
+/**
+ * Compute the SHA-256 integrity value of a file's bytes (or a text, as
+ * UTF-8), in the format of RuleSubscription.integrity
+ */
+export async function sha256Integrity(
+	content: string | ArrayBuffer
+): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		typeof content === "string" ? new TextEncoder().encode(content) : content
+	);
+	const bytes = String.fromCharCode(...new Uint8Array(digest));
+	return `sha256-${btoa(bytes)}`;
+}
+
+/**
+ * Fetch a rule list, keeping the cached copy when the server reports no change.
+ * Failures are recorded in the returned entry and keep the last good copy.
+ */
+export async function fetchSubscription(
+	subscription: RuleSubscription,
+	cached: SubscriptionCache = { providers: {} }
+): Promise<SubscriptionCache> {
+	const checkedAt = Date.now();
+
+	try {
+		// A changed pin needs the full content to verify it again
+		const headers: Record<string, string> = {};
+		if (cached.integrity === subscription.integrity) {
+			if (cached.etag) headers["If-None-Match"] = cached.etag;
+			if (cached.lastModified) {
+				headers["If-Modified-Since"] = cached.lastModified;
+			}
+		}
+
+		const response = await fetch(subscription.url, {
+			headers,
+			cache: "no-cache",
+		});
+		if (response.status === 304) {
+			return { ...cached, checkedAt, error: undefined };
+		}
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status} ${response.statusText}`);
+		}
+
+		// The pin covers the bytes as served, before any decoding
+		const content = await response.arrayBuffer();
+		if (subscription.integrity) {
+			const integrity = await sha256Integrity(content);
+			if (integrity !== subscription.integrity) {
+				throw new Error(`Integrity check failed, got ${integrity}`);
+			}
+		}
+		const text = new TextDecoder().decode(content);
+
+		// Invalid providers are skipped, like on import
+		const { providers, errors } = parseClearUrlsJson(text);
+		if (Object.keys(providers).length === 0 && errors.length > 0) {
+			throw new Error(errors[0].message);
+		}
+
+		return {
+			providers,
+			etag: response.headers.get("ETag") ?? undefined,
+			lastModified: response.headers.get("Last-Modified") ?? undefined,
+			integrity: subscription.integrity,
+			checkedAt,
+			updatedAt: checkedAt,
+			error:
+				errors.length > 0
+					? `Skipped ${errors.length} invalid rules`
+					: undefined,
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.warn("[Subscriptions] Update failed:", subscription.url, message);
+		return { ...cached, checkedAt, error: message };
+	}
+}
+
+/**
+ * Update all subscribed rule lists and store the results.
+ * Copies of lists that are no longer subscribed are dropped.
+ */
+export async function updateSubscriptions(): Promise<
+	Record<string, SubscriptionCache>
+> {
+	const subscriptions = await getSubscriptions();
+	const cache = await getSubscriptionCache();
+
+	const updated: Record<string, SubscriptionCache> = {};
+	for (const subscription of subscriptions) {
+		updated[subscription.url] = await fetchSubscription(
+			subscription,
+			cache[subscription.url]
+		);
+	}
+
+	await browser.storage?.local.set({
+		[SUBSCRIPTION_CACHE_STORAGE_KEY]: updated,
+	});
+	console.log(
+		"[Subscriptions] Updated",
+		subscriptions.length,
+		"rule lists"
+	);
+	return updated;
+}
+
+/**
+ * Get the providers of all subscribed lists.
+ * Earlier subscriptions win name conflicts.
+ */
+export async function getSubscriptionProviders(): Promise<ClearUrlsProviders> {
+	const subscriptions = await getSubscriptions();
+	const cache = await getSubscriptionCache();
+	return mergeProviders(
+		...subscriptions.map(({ url }) => cache[url]?.providers ?? {})
+	);
+}
+
+/**
+ * Schedule periodic rule list updates in the background worker
+ */
+export async function setupSubscriptionUpdates(): Promise<void> {
+	if (typeof chrome === "undefined" || !chrome.alarms) {
+		console.warn("[Subscriptions] alarms API not available");
+		return;
+	}
+
+	chrome.alarms.onAlarm.addListener((alarm) => {
+		if (alarm.name !== SUBSCRIPTION_ALARM) return;
+		updateSubscriptions().catch((error) => {
+			console.error("[Subscriptions] Could not store rule lists:", error);
+		});
+	});
+
+	// Recreating the alarm on every worker start would postpone it forever
+	if (!(await chrome.alarms.get(SUBSCRIPTION_ALARM))) {
+		await chrome.alarms.create(SUBSCRIPTION_ALARM, {
+			delayInMinutes: 1,
+			periodInMinutes: UPDATE_INTERVAL_MINUTES,
+		});
+	}
+}
@@ -11,6 +11,8 @@ export default defineConfig({
 		webExtension({
 			manifest: "./src/manifest.json",
 			watchFilePaths: ["src/**/*"],
+			// Not referenced by the manifest, opened by the clipboard service
+			additionalInputs: ["src/offscreen/index.html"],
 		}),
 	],
 	resolve: {